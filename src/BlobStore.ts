@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Changelist, SnapshotStore } from './types';
+import { collectContentIds, log } from './utils';
+
+/** Blobs younger than this are never pruned, so content written by an in-flight shelve survives */
+const PRUNE_GRACE_MS = 60 * 1000;
+
+/** Least time between two prunes on sync, as a prune reads every blob of the store */
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Content-addressed store for snapshot content.
+ * Each blob is written once under its SHA-256, so identical contents
+ * shelved into several changelists share a single file on disk.
+ *
+ * Layout: {rootPath}/{first 2 hash chars}/{remaining hash chars}
+ */
+export class BlobStore implements SnapshotStore {
+    /** When sync last pruned the store */
+    private lastPrunedAt = 0;
+
+    constructor(private readonly rootPath: string) {}
+
+    /**
+     * Compute the key a content would be stored under
+     */
+    public static hash(content: string | Buffer): string {
+        return crypto.createHash('sha256').update(content).digest('hex');
+    }
+
+    /**
+     * Store content and return its hash. Existing blobs are not rewritten.
+     */
+    public async put(content: string | Buffer): Promise<string> {
+        const hash = BlobStore.hash(content);
+        const blobPath = this.getBlobPath(hash);
+
+        if (fs.existsSync(blobPath)) {
+            // Refresh mtime so a concurrent prune treats the blob as freshly written
+            const now = new Date();
+            fs.utimesSync(blobPath, now, now);
+            return hash;
+        }
+
+        const dir = path.dirname(blobPath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        // Write to a temp file first so a crash never leaves a truncated blob behind
+        const tempPath = `${blobPath}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tempPath, content);
+        await fs.promises.rename(tempPath, blobPath);
+
+        return hash;
+    }
+
+    /**
+     * Read the raw bytes of a blob
+     */
+    public async get(hash: string): Promise<Buffer | undefined> {
+        const blobPath = this.getBlobPath(hash);
+        try {
+            return await fs.promises.readFile(blobPath);
+        } catch (error) {
+            log(`Blob not found: ${hash} (${error})`, 'warn');
+            return undefined;
+        }
+    }
+
+    /**
+     * Read a blob as UTF-8 text
+     */
+    public async getText(hash: string): Promise<string | undefined> {
+        const content = await this.get(hash);
+        return content?.toString('utf8');
+    }
+
+    public has(hash: string): boolean {
+        return fs.existsSync(this.getBlobPath(hash));
+    }
+
+    /**
+     * Drop blobs that none of the changelists reference any more, except retained ones.
+     * Skipped when the last prune is more recent than PRUNE_INTERVAL_MS.
+     */
+    public async sync(changelists: Changelist[], retained: Set<string> = new Set()): Promise<void> {
+        const now = Date.now();
+        if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+            return;
+        }
+        this.lastPrunedAt = now;
+        await this.prune(new Set([...collectContentIds(changelists), ...retained]));
+    }
+
+    /**
+     * Delete every blob that is not in the referenced set.
+     * Returns the number of blobs removed.
+     */
+    public async prune(referenced: Set<string>): Promise<number> {
+        if (!fs.existsSync(this.rootPath)) {
+            return 0;
+        }
+
+        let removed = 0;
+        const cutoff = Date.now() - PRUNE_GRACE_MS;
+        for (const prefix of await fs.promises.readdir(this.rootPath)) {
+            const prefixDir = path.join(this.rootPath, prefix);
+            if (!fs.statSync(prefixDir).isDirectory()) {
+                continue;
+            }
+
+            for (const rest of await fs.promises.readdir(prefixDir)) {
+                if (rest.endsWith('.tmp')) {
+                    continue;
+                }
+                if (referenced.has(prefix + rest)) {
+                    continue;
+                }
+
+                const blobPath = path.join(prefixDir, rest);
+                if (fs.statSync(blobPath).mtimeMs > cutoff) {
+                    continue;
+                }
+
+                await fs.promises.unlink(blobPath);
+                removed++;
+            }
+        }
+
+        if (removed > 0) {
+            log(`Pruned ${removed} unreferenced blob(s) from ${this.rootPath}`);
+        }
+        return removed;
+    }
+
+    private getBlobPath(hash: string): string {
+        return path.join(this.rootPath, hash.substring(0, 2), hash.substring(2));
+    }
+}
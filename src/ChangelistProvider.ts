@@ -9,7 +9,7 @@ import {
     STATUS_DECORATIONS,
     SHELVED_DECORATION
 } from './types';
-import { getConfig, toAbsolutePath, getWorkspaceRoot, log } from './utils';
+import { getConfig, getAbsolutePathFromRepo, getWorkspaceRoot, log, formatRenamedPath } from './utils';
 
 /**
  * SCM Provider for Smart Changelists with Shelve support
@@ -19,19 +19,24 @@ export class ChangelistProvider implements vscode.Disposable {
     private workingChangesGroup: vscode.SourceControlResourceGroup;
     private shelvedGroups: Map<string, vscode.SourceControlResourceGroup> = new Map();
     private disposables: vscode.Disposable[] = [];
+    /** Active changelist the input box was last filled for */
+    private activeChangelistId: string | undefined;
+    /** Message last put into the input box from a commit template */
+    private templateMessage = '';
 
     constructor(private readonly service: ChangelistService) {
         // Create the source control
         this.sourceControl = vscode.scm.createSourceControl(
             'smartChangelists',
             'Smart Changelists',
-            vscode.Uri.file(getWorkspaceRoot() || '')
+            vscode.Uri.file(service.repository.path)
         );
 
         this.sourceControl.inputBox.placeholder = 'Commit message';
         this.sourceControl.acceptInputCommand = {
             command: 'smartChangelists.commitWorkingChanges',
-            title: 'Commit'
+            title: 'Commit',
+            arguments: [{ repoPath: service.repository.path }]
         };
 
         // Create working changes group (default changelist - unshelved changes)
@@ -43,20 +48,51 @@ export class ChangelistProvider implements vscode.Disposable {
 
         // Subscribe to service events
         this.disposables.push(
-            this.service.onDidChangeChangelists(() => this.updateShelvedGroups()),
-            this.service.onDidChangeFiles(() => this.updateWorkingChanges())
+            this.service.onDidChangeChangelists(() => {
+                this.updateShelvedGroups();
+                this.updateCommitTemplate();
+            }),
+            this.service.onDidChangeFiles(() => {
+                this.updateWorkingChanges();
+                this.updateShelvedGroups();
+            })
         );
 
         // Initial setup
         this.updateShelvedGroups();
         this.updateWorkingChanges();
+        this.updateCommitTemplate();
     }
 
     /**
-     * Update the working changes group with current git status
+     * Switch the input box to the active changelist's commit template when the active changelist
+     * changes. A message typed by the user is left alone.
+     */
+    private async updateCommitTemplate(): Promise<void> {
+        const active = this.service.getActiveChangelist();
+        if (active.id === this.activeChangelistId) {
+            return;
+        }
+        this.activeChangelistId = active.id;
+
+        const inputBox = this.sourceControl.inputBox;
+        if (inputBox.value && inputBox.value !== this.templateMessage) {
+            return;
+        }
+
+        try {
+            this.templateMessage = active.commitTemplate ? await this.service.getCommitMessage(active.id) : '';
+            inputBox.value = this.templateMessage;
+        } catch (error) {
+            log(`Failed to fill the commit template: ${error}`, 'warn');
+        }
+    }
+
+    /**
+     * Update the working changes group with the changed files of the default changelist
      */
     private updateWorkingChanges(): void {
-        const files = this.service.getChangedFiles();
+        const files = this.service.getWorkingFilesForChangelist(this.service.getDefaultChangelist().id);
 
         this.workingChangesGroup.resourceStates = files.map(file =>
             this.createWorkingResourceState(file)
@@ -92,32 +128,38 @@ export class ChangelistProvider implements vscode.Disposable {
             if (changelist.isDefault) continue;
 
             let group = this.shelvedGroups.get(changelist.id);
+            const workingFiles = this.service.getWorkingFilesForChangelist(changelist.id);
 
             if (!group) {
                 // Create new group
                 group = this.sourceControl.createResourceGroup(
                     changelist.id,
-                    this.formatGroupLabel(changelist)
+                    this.formatGroupLabel(changelist, workingFiles.length)
                 );
                 group.hideWhenEmpty = !config.showEmptyChangelists;
                 this.shelvedGroups.set(changelist.id, group);
             }
 
-            // Update group label and resources
-            group.label = this.formatGroupLabel(changelist);
-            group.resourceStates = changelist.shelvedFiles.map(shelvedFile =>
-                this.createShelvedResourceState(shelvedFile, changelist.id)
-            );
+            // Update group label and resources: working files of the changelist, then its snapshots
+            group.label = this.formatGroupLabel(changelist, workingFiles.length);
+            group.resourceStates = [
+                ...workingFiles.map(file => this.createWorkingResourceState(file)),
+                ...changelist.shelvedFiles.map(shelvedFile =>
+                    this.createShelvedResourceState(shelvedFile, changelist.id)
+                )
+            ];
         }
     }
 
     /**
-     * Format the group label with file count and active indicator
+     * Format the group label with file counts and active indicator
      */
-    private formatGroupLabel(changelist: Changelist): string {
+    private formatGroupLabel(changelist: Changelist, workingCount: number): string {
         const count = changelist.shelvedFiles.length;
+        const changed = workingCount > 0 ? ` (${workingCount} changed)` : '';
         const activeMarker = changelist.isActive ? ' ★' : '';
-        return `${changelist.label} [Shelved] (${count})${activeMarker}`;
+        const excludedMarker = changelist.excludeFromCommit ? ' ⊘' : '';
+        return `${changelist.label}${changed} [Shelved] (${count})${activeMarker}${excludedMarker}`;
     }
 
     /**
@@ -134,7 +176,7 @@ export class ChangelistProvider implements vscode.Disposable {
             decorations: {
                 strikeThrough: file.status === 'deleted',
                 faded: file.status === 'ignored',
-                tooltip: `${file.relativePath} • ${decoration.tooltip}`
+                tooltip: `${formatRenamedPath(file.relativePath, file.originalPath)} • ${decoration.tooltip}`
             },
             command: {
                 command: 'smartChangelists.openDiff',
@@ -151,7 +193,7 @@ export class ChangelistProvider implements vscode.Disposable {
         shelvedFile: ShelvedFile,
         changelistId: string
     ): vscode.SourceControlResourceState {
-        const absolutePath = toAbsolutePath(shelvedFile.relativePath);
+        const absolutePath = getAbsolutePathFromRepo(shelvedFile.relativePath, this.service.repository.path);
         const uri = vscode.Uri.file(absolutePath);
         const statusDecoration = STATUS_DECORATIONS[shelvedFile.status];
 
@@ -160,7 +202,7 @@ export class ChangelistProvider implements vscode.Disposable {
             decorations: {
                 strikeThrough: shelvedFile.status === 'deleted',
                 faded: true, // Shelved files appear faded
-                tooltip: `${shelvedFile.relativePath} • Shelved (${statusDecoration.tooltip})`
+                tooltip: `${formatRenamedPath(shelvedFile.relativePath, shelvedFile.originalPath)} • Shelved (${statusDecoration.tooltip})`
             },
             command: {
                 command: 'smartChangelists.previewShelved',
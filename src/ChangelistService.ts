@@ -1,31 +1,90 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { isDeepStrictEqual } from 'util';
 import simpleGit, { SimpleGit, StatusResult } from 'simple-git';
 import {
     Changelist,
     ChangelistState,
     ChangedFile,
     ShelvedFile,
+    ShelvedFileRevision,
     ChangelistExport,
     GitFileStatus,
     FileVersion,
-    GitRepository
+    GitRepository,
+    Hunk,
+    RestoreResult,
+    SnapshotCollision,
+    SnapshotEntry,
+    SnapshotStorage,
+    SnapshotStore,
+    TextEncoding,
+    AutomaticChangelist,
+    ChangelistCommit,
+    CommitFileChange,
+    EntryKind,
+    JournalAssignment,
+    JournalChangelist,
+    JournalEntry,
+    JournalFile,
+    JournalSnapshot,
+    OperationJournal
 } from './types';
+import { BlobStore } from './BlobStore';
+import { applyHunks, diffLines, mergeLines, splitHunksAtLines, splitLines } from './diff';
+import { GitObjectStore } from './GitObjectStore';
 import {
     generateId,
+    collectContentIds,
     getWorkspaceRoot,
     mapGitStatus,
     getConfig,
     log,
     normalizePath,
     getRepoStateKey,
-    getAbsolutePathFromRepo
+    getRepoHash,
+    getAbsolutePathFromRepo,
+    getRelativePathFromRepo,
+    getEntryKind,
+    hasGitDir,
+    isBinaryContent,
+    detectEncoding,
+    detectLineEnding,
+    decodeText,
+    encodeText,
+    renderCommitTemplate
 } from './utils';
 
 const LEGACY_STATE_KEY = 'smartChangelists.state';
-const STATE_VERSION = 4; // Bumped for multi-repo support
+const STATE_VERSION = 5; // Bumped for blob store (content no longer inline)
 const SNAPSHOTS_DIR = '.smartchangelists';
+const JOURNAL_LIMIT = 20; // Operations kept for undo per repository
+const AUTOMATIC_CHANGELIST_LABELS: Record<AutomaticChangelist, string> = {
+    localHistory: 'Local History',
+    recovery: 'Recovery'
+};
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOCAL_HISTORY_DELAY_MS = 1000; // Saves of a file in quick succession make one local history capture
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'; // Compared against for a root commit
+const EXCLUDED_LIST = 'smart-changelists-exclude'; // Under the git dir: paths the pre-commit hook rejects
+const HOOK_MARKER = '# smart-changelists: exclude-from-commit';
+const PRE_COMMIT_HOOK = `#!/bin/sh
+${HOOK_MARKER}
+# Rejects commits that stage files of changelists marked "Exclude from Commit" in Smart Changelists.
+list="$(git rev-parse --git-path ${EXCLUDED_LIST})"
+[ -s "$list" ] || exit 0
+# Staged paths come NUL-separated and unquoted, so names with spaces or non-ASCII characters match the list
+blocked="$(git -c core.quotePath=false diff --cached --name-only -z --no-renames | grep -zFx -f "$list" | tr '\\0' '\\n')"
+if [ -n "$blocked" ]; then
+    echo "Smart Changelists: these files are in changelists excluded from commit:" >&2
+    echo "$blocked" | sed 's/^/  /' >&2
+    echo "Unstage them, or commit with --no-verify to override." >&2
+    exit 1
+fi
+`;
 
 /**
  * Service for managing changelists with shelve/unshelve functionality.
@@ -35,8 +94,11 @@ export class ChangelistService implements vscode.Disposable {
     private readonly _onDidChangeChangelists = new vscode.EventEmitter<void>();
     private readonly _onDidChangeFiles = new vscode.EventEmitter<void>();
 
+    private readonly _onDidChangeJournal = new vscode.EventEmitter<void>();
+
     public readonly onDidChangeChangelists = this._onDidChangeChangelists.event;
     public readonly onDidChangeFiles = this._onDidChangeFiles.event;
+    public readonly onDidChangeJournal = this._onDidChangeJournal.event;
 
     private git: SimpleGit | undefined;
     private state: ChangelistState;
@@ -47,6 +109,30 @@ export class ChangelistService implements vscode.Disposable {
     public readonly repository: GitRepository;
     /** State key for this repository */
     private readonly stateKey: string;
+    /** Storage backend for snapshot content (matches state.storage) */
+    private store: SnapshotStore;
+    /** Keys (see getStaleKey) of latest snapshots whose recorded HEAD content differs from HEAD */
+    private staleSnapshots: Set<string> = new Set();
+    /** Git blob id per content id, for comparing stored content with HEAD */
+    private gitBlobIds: Map<string, string> = new Map();
+    /** Set once initialize() has reconciled state and store */
+    private storeReady = false;
+    /** Undo/redo stacks of destructive operations */
+    private journal: OperationJournal;
+    /** State captured before the journaled operation currently running */
+    private pendingJournalSnapshot: JournalSnapshot | undefined;
+    /** Journaled operations, undo and redo, run one at a time */
+    private journalQueue: Promise<unknown> = Promise.resolve();
+    /** Set within the journaled operation currently running, so operations it starts join it */
+    private readonly journalContext = new AsyncLocalStorage<boolean>();
+    /** Local history snapshots taken on save, one at a time */
+    private localHistoryQueue: Promise<void> = Promise.resolve();
+    /** Pending local history capture per saved file */
+    private localHistoryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+    /** Whether git status was read once; changes present before that are not moved to the active changelist */
+    private statusLoaded = false;
+    /** Content last written to the excluded-files list of the pre-commit hook */
+    private excludedListContent: string | undefined;
 
     constructor(
         private readonly context: vscode.ExtensionContext,
@@ -54,12 +140,149 @@ export class ChangelistService implements vscode.Disposable {
     ) {
         this.repository = repository;
         this.stateKey = getRepoStateKey(repository.path);
-        this.state = this.loadState();
         this.initGit();
+        this.state = this.loadState();
+        this.journal = this.context.workspaceState.get<OperationJournal>(this.getJournalKey()) || { undo: [], redo: [] };
+        this.store = this.createStore(this.state.storage || 'workspace');
         this.setupWatchers();
         this.ensureSnapshotsDir();
     }
 
+    /**
+     * Finish async setup: moves any inline snapshot content into the store,
+     * switches to the configured storage backend and recovers changelists kept in git refs.
+     * Must be awaited before the service is used.
+     */
+    public async initialize(): Promise<void> {
+        await this.migrateInlineContent();
+        await this.switchStorage(getConfig().snapshotStorage);
+        await this.recoverChangelistsFromRefs();
+        if (this.pruneArchive(Date.now())) {
+            await this.saveState();
+        }
+        await this.migrateJournal();
+        this.storeReady = true;
+        await this.syncStore();
+    }
+
+    private createStore(storage: SnapshotStorage): SnapshotStore {
+        if (storage === 'gitRefs') {
+            if (!this.git) {
+                throw new Error('Git not initialized');
+            }
+            return new GitObjectStore(this.git);
+        }
+        return new BlobStore(this.getBlobStorePath());
+    }
+
+    /**
+     * Move all snapshot content to another storage backend and rewrite the ids in state
+     */
+    private async switchStorage(storage: SnapshotStorage): Promise<void> {
+        const current = this.state.storage || 'workspace';
+        if (current === storage) {
+            return;
+        }
+
+        const target = this.createStore(storage);
+        const movedIds = new Map<string, string>();
+
+        const moveContent = async (id?: string): Promise<string | undefined> => {
+            if (!id) {
+                return undefined;
+            }
+            if (!movedIds.has(id)) {
+                const content = await this.store.get(id);
+                if (content === undefined) {
+                    log(`Content ${id} missing from ${current} storage, keeping its id`, 'warn');
+                }
+                movedIds.set(id, content !== undefined ? await target.put(content) : id);
+            }
+            return movedIds.get(id);
+        };
+
+        const moveSnapshot = async <T extends ShelvedFileRevision>(snapshot: T): Promise<T> => ({
+            ...snapshot,
+            contentHash: await moveContent(snapshot.contentHash),
+            headHash: await moveContent(snapshot.headHash)
+        });
+
+        // Build the new changelists first so a failure leaves the current state untouched
+        const changelists: Changelist[] = [];
+        for (const changelist of this.state.changelists) {
+            const shelvedFiles: ShelvedFile[] = [];
+            for (const shelvedFile of changelist.shelvedFiles) {
+                const moved = await moveSnapshot(shelvedFile);
+                if (shelvedFile.history) {
+                    moved.history = [];
+                    for (const revision of shelvedFile.history) {
+                        moved.history.push(await moveSnapshot(revision));
+                    }
+                }
+                shelvedFiles.push(moved);
+            }
+            changelists.push({ ...changelist, shelvedFiles });
+        }
+
+        const previous = this.store;
+        this.state.changelists = changelists;
+        this.state.storage = storage;
+        this.store = target;
+        await this.saveState();
+
+        // Journal content stays behind in the old backend
+        await this.saveJournal({ undo: [], redo: [] });
+
+        // Nothing references the old backend any more
+        try {
+            await (previous instanceof BlobStore ? previous.prune(new Set()) : previous.sync([]));
+        } catch (error) {
+            log(`Failed to clean up ${current} storage: ${error}`, 'warn');
+        }
+
+        log(`Moved ${movedIds.size} snapshot content(s) from ${current} to ${storage} storage for ${this.repository.name}`);
+    }
+
+    /**
+     * Add changelists that exist as git refs but not in workspace state
+     * (e.g. after a VS Code profile reset)
+     */
+    private async recoverChangelistsFromRefs(): Promise<void> {
+        if (!(this.store instanceof GitObjectStore)) {
+            return;
+        }
+
+        const knownIds = new Set(this.state.changelists.map(cl => cl.id));
+        let recovered = 0;
+
+        for (const changelist of await this.store.readChangelists()) {
+            if (knownIds.has(changelist.id) || changelist.isDefault) {
+                continue;
+            }
+
+            this.state.changelists.push({
+                ...changelist,
+                isActive: false,
+                repoPath: this.repository.path,
+                shelvedFiles: changelist.shelvedFiles.map(sf => ({ ...sf, repoPath: this.repository.path }))
+            });
+            recovered++;
+        }
+
+        if (recovered > 0) {
+            await this.saveState();
+            log(`Recovered ${recovered} changelist(s) from git refs for ${this.repository.name}`);
+        }
+    }
+
+    /**
+     * Blobs live under the extension's workspace storage, one folder per repository
+     */
+    private getBlobStorePath(): string {
+        const storageUri = this.context.storageUri || this.context.globalStorageUri;
+        return path.join(storageUri.fsPath, 'blobs', getRepoHash(this.repository.path));
+    }
+
     private ensureSnapshotsDir(): void {
         const config = getConfig();
         if (!config.saveSnapshotsToFile) return;
@@ -88,10 +311,12 @@ export class ChangelistService implements vscode.Disposable {
     /**
      * Save snapshot content to file for CLI tool access (Claude Code, Gemini, etc.)
      */
-    private async saveSnapshotToFile(shelvedFile: ShelvedFile, changelist: Changelist): Promise<void> {
+    private async saveSnapshotToFile(shelvedFile: ShelvedFile, changelist: Changelist, content: Buffer | undefined): Promise<void> {
         const config = getConfig();
         if (!config.saveSnapshotsToFile) return;
-        if (!shelvedFile.originalContent) return;
+        if (!content) {
+            return;
+        }
 
         const snapshotPath = this.getSnapshotFilePath(shelvedFile, changelist);
         const snapshotDir = path.dirname(snapshotPath);
@@ -100,7 +325,7 @@ export class ChangelistService implements vscode.Disposable {
             if (!fs.existsSync(snapshotDir)) {
                 fs.mkdirSync(snapshotDir, { recursive: true });
             }
-            fs.writeFileSync(snapshotPath, shelvedFile.originalContent, 'utf8');
+            fs.writeFileSync(snapshotPath, content);
             log(`Saved snapshot file: ${snapshotPath}`);
         } catch (error) {
             log(`Failed to save snapshot file: ${error}`, 'warn');
@@ -146,8 +371,17 @@ export class ChangelistService implements vscode.Disposable {
             );
         }
 
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument(document => this.scheduleLocalHistory(document.uri.fsPath)),
+            { dispose: () => this.localHistoryTimers.forEach(timer => clearTimeout(timer)) }
+        );
+
         this.disposables.push(
             vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('smartChangelists.snapshotStorage') && this.storeReady) {
+                    this.switchStorage(getConfig().snapshotStorage)
+                        .catch(error => log(`Failed to switch snapshot storage: ${error}`, 'error'));
+                }
                 if (e.affectsConfiguration('smartChangelists')) {
                     this._onDidChangeChangelists.fire();
                 }
@@ -256,10 +490,75 @@ export class ChangelistService implements vscode.Disposable {
         };
     }
 
+    /**
+     * Move content stored inline in shelved files (state before v5) into the blob store
+     */
+    private async migrateInlineContent(): Promise<void> {
+        let migrated = 0;
+
+        for (const changelist of this.state.changelists) {
+            for (const shelvedFile of changelist.shelvedFiles) {
+                if (await this.internalizeContent(shelvedFile)) {
+                    migrated++;
+                }
+            }
+        }
+
+        if (migrated > 0) {
+            await this.saveState();
+            log(`Moved content of ${migrated} snapshot(s) to blob store for ${this.repository.name}`);
+        }
+    }
+
+    /**
+     * Replace inline content of a shelved file with blob store hashes.
+     * Returns true if anything was moved.
+     */
+    private async internalizeContent(shelvedFile: ShelvedFile | ShelvedFileRevision): Promise<boolean> {
+        let changed = false;
+
+        const encoding = this.getInlineEncoding(shelvedFile);
+
+        if (shelvedFile.originalContent !== undefined) {
+            shelvedFile.contentHash = await this.store.put(Buffer.from(shelvedFile.originalContent, encoding));
+            delete shelvedFile.originalContent;
+            changed = true;
+        }
+
+        if (shelvedFile.headContent !== undefined) {
+            shelvedFile.headHash = await this.store.put(Buffer.from(shelvedFile.headContent, encoding));
+            delete shelvedFile.headContent;
+            changed = true;
+        }
+
+        return changed;
+    }
+
+    /**
+     * Let the store record the current changelists and drop unreferenced content
+     */
+    private async syncStore(): Promise<void> {
+        try {
+            await this.store.sync(this.state.changelists, this.getJournalContentIds());
+        } catch (error) {
+            log(`Failed to sync snapshot store: ${error}`, 'warn');
+        }
+    }
+
     private async saveState(state?: ChangelistState): Promise<void> {
         const stateToSave = state || this.state;
         await this.context.workspaceState.update(this.stateKey, stateToSave);
         log(`State saved for ${this.repository.name}`);
+
+        try {
+            await this.writeExcludedList();
+        } catch (error) {
+            log(`Failed to update the excluded files list: ${error}`, 'warn');
+        }
+
+        if (this.storeReady) {
+            await this.syncStore();
+        }
     }
 
     public async refresh(): Promise<void> {
@@ -270,12 +569,23 @@ export class ChangelistService implements vscode.Disposable {
 
         try {
             const status = await this.git.status();
+            const previous = new Set(this.changedFiles.keys());
             this.updateChangedFiles(status);
+            if (this.updateAssignments(previous)) {
+                await this.saveState();
+            }
+            this.statusLoaded = true;
             this._onDidChangeFiles.fire();
             log(`Refreshed: ${this.changedFiles.size} changed files`);
         } catch (error) {
             log(`Error refreshing git status: ${error}`, 'error');
         }
+
+        try {
+            await this.updateStaleSnapshots();
+        } catch (error) {
+            log(`Error checking for stale snapshots: ${error}`, 'warn');
+        }
     }
 
     private updateChangedFiles(status: StatusResult): void {
@@ -290,7 +600,8 @@ export class ChangelistService implements vscode.Disposable {
                 relativePath,
                 status: gitStatus,
                 originalPath: originalPath ? normalizePath(originalPath) : undefined,
-                repoPath: this.repository.path
+                repoPath: this.repository.path,
+                kind: getEntryKind(absolutePath)
             });
         };
 
@@ -310,10 +621,43 @@ export class ChangelistService implements vscode.Disposable {
         });
     }
 
+    /**
+     * Assign files that became changed since the last refresh to the active changelist,
+     * and forget files that are no longer changed. Returns whether any assignment changed.
+     */
+    private updateAssignments(previous: Set<string>): boolean {
+        const assignments = this.state.assignments ?? {};
+        const active = this.getActiveChangelist();
+        let changed = false;
+
+        for (const relativePath of Object.keys(assignments)) {
+            const changelist = this.getChangelist(assignments[relativePath]);
+            if (!this.changedFiles.has(relativePath) || !changelist || changelist.archivedAt) {
+                delete assignments[relativePath];
+                changed = true;
+            }
+        }
+
+        if (this.statusLoaded && !active.isDefault) {
+            for (const relativePath of this.changedFiles.keys()) {
+                if (!previous.has(relativePath) && !assignments[relativePath]) {
+                    assignments[relativePath] = active.id;
+                    changed = true;
+                }
+            }
+        }
+
+        this.state.assignments = assignments;
+        return changed;
+    }
+
     // ========== Changelist CRUD Operations ==========
 
+    /**
+     * Changelists in use; archived ones are listed by getArchivedChangelists
+     */
     public getChangelists(): Changelist[] {
-        return [...this.state.changelists];
+        return this.state.changelists.filter(cl => !cl.archivedAt);
     }
 
     public getChangelist(id: string): Changelist | undefined {
@@ -365,6 +709,75 @@ export class ChangelistService implements vscode.Disposable {
         log(`Renamed changelist to: ${newLabel}`);
     }
 
+    /**
+     * Set a changelist's description and commit message template (an empty string clears one)
+     */
+    public async updateChangelistDetails(
+        id: string,
+        details: { description?: string; commitTemplate?: string }
+    ): Promise<void> {
+        const changelist = this.getChangelist(id);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${id}`);
+        }
+
+        for (const key of ['description', 'commitTemplate'] as const) {
+            const value = details[key];
+            if (value === undefined) {
+                continue;
+            }
+            if (value.trim()) {
+                changelist[key] = value;
+            } else {
+                delete changelist[key];
+            }
+        }
+
+        await this.saveState();
+        this._onDidChangeChangelists.fire();
+
+        log(`Updated details of changelist: ${changelist.label}`);
+    }
+
+    /**
+     * Commit message suggested for a changelist: its template with the placeholders filled in,
+     * otherwise its label (not for the default changelist) followed by its description
+     */
+    public async getCommitMessage(changelistId: string): Promise<string> {
+        const changelist = this.getChangelist(changelistId);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${changelistId}`);
+        }
+
+        if (!changelist.commitTemplate) {
+            return [changelist.isDefault ? undefined : changelist.label, changelist.description]
+                .filter(Boolean)
+                .join('\n\n');
+        }
+
+        const files = [...new Set([
+            ...this.getWorkingFilesForChangelist(changelist.id).map(f => f.relativePath),
+            ...changelist.shelvedFiles.map(f => f.relativePath)
+        ])].sort();
+
+        let branch = '';
+        if (this.git) {
+            try {
+                branch = (await this.git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+            } catch {
+                // No commits yet
+            }
+        }
+
+        return renderCommitTemplate(changelist.commitTemplate, {
+            label: changelist.label,
+            description: changelist.description ?? '',
+            branch,
+            files: files.join('\n'),
+            fileCount: String(files.length)
+        });
+    }
+
     public async deleteChangelist(id: string): Promise<void> {
         const changelist = this.getChangelist(id);
         if (!changelist) {
@@ -375,22 +788,26 @@ export class ChangelistService implements vscode.Disposable {
             throw new Error('Cannot delete default changelist');
         }
 
-        // Unshelve all files back to working directory before deleting
-        if (changelist.shelvedFiles.length > 0) {
-            for (const shelvedFile of changelist.shelvedFiles) {
-                await this.unshelveFileInternal(shelvedFile);
+        await this.journaled(`Delete changelist "${changelist.label}"`, this.getJournalPaths(changelist.shelvedFiles), async () => {
+            // Unshelve all files back to working directory before deleting (automatic changelists only
+            // hold copies of earlier content and archived ones were committed or retired, so they are just dropped)
+            if (changelist.shelvedFiles.length > 0 && !changelist.automatic && !changelist.archivedAt) {
+                for (const shelvedFile of changelist.shelvedFiles) {
+                    await this.unshelveFileInternal(shelvedFile, changelist.label);
+                }
             }
-        }
 
-        this.state.changelists = this.state.changelists.filter(cl => cl.id !== id);
+            this.state.changelists = this.state.changelists.filter(cl => cl.id !== id);
+            this.unassignWorkingFiles(id);
 
-        if (changelist.isActive) {
-            const defaultCl = this.getDefaultChangelist();
-            defaultCl.isActive = true;
-            this.state.activeChangelistId = defaultCl.id;
-        }
+            if (changelist.isActive) {
+                const defaultCl = this.getDefaultChangelist();
+                defaultCl.isActive = true;
+                this.state.activeChangelistId = defaultCl.id;
+            }
 
-        await this.saveState();
+            await this.saveState();
+        });
         await this.refresh();
         this._onDidChangeChangelists.fire();
 
@@ -403,6 +820,10 @@ export class ChangelistService implements vscode.Disposable {
             throw new Error(`Changelist not found: ${id}`);
         }
 
+        if (changelist.automatic || changelist.archivedAt) {
+            throw new Error(`${changelist.label} cannot be the active changelist`);
+        }
+
         for (const cl of this.state.changelists) {
             cl.isActive = false;
         }
@@ -422,6 +843,70 @@ export class ChangelistService implements vscode.Disposable {
         return Array.from(this.changedFiles.values());
     }
 
+    /**
+     * Changelist a working file belongs to: the one it was moved to, or that was active when
+     * it changed, otherwise the default changelist
+     */
+    public getChangelistForFile(relativePath: string): Changelist {
+        const id = this.state.assignments?.[normalizePath(relativePath)];
+        return (id && this.getChangelist(id)) || this.getDefaultChangelist();
+    }
+
+    /**
+     * Changed working files that belong to a changelist
+     */
+    public getWorkingFilesForChangelist(changelistId: string): ChangedFile[] {
+        return this.getChangedFiles().filter(file => this.getChangelistForFile(file.relativePath).id === changelistId);
+    }
+
+    /**
+     * Move changed working files to another changelist without taking a snapshot
+     */
+    public async moveWorkingFiles(relativePaths: string[], targetChangelistId: string): Promise<void> {
+        const changelist = this.getChangelist(targetChangelistId);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${targetChangelistId}`);
+        }
+
+        if (changelist.automatic || changelist.archivedAt) {
+            throw new Error(`Working files cannot be moved to ${changelist.label}`);
+        }
+
+        const normalizedPaths = relativePaths.map(normalizePath);
+        const missing = normalizedPaths.find(relativePath => !this.changedFiles.has(relativePath));
+        if (missing) {
+            throw new Error(`File not found in changes: ${missing}`);
+        }
+
+        const assignments = this.state.assignments ?? {};
+        for (const relativePath of normalizedPaths) {
+            if (changelist.isDefault) {
+                delete assignments[relativePath];
+            } else {
+                assignments[relativePath] = changelist.id;
+            }
+        }
+        this.state.assignments = assignments;
+
+        await this.saveState();
+        this._onDidChangeFiles.fire();
+        this._onDidChangeChangelists.fire();
+
+        log(`Moved ${normalizedPaths.length} file(s) to ${changelist.label}`);
+    }
+
+    /**
+     * Send the working files of a changelist back to the default changelist
+     */
+    private unassignWorkingFiles(changelistId: string): void {
+        const assignments = this.state.assignments ?? {};
+        for (const relativePath of Object.keys(assignments)) {
+            if (assignments[relativePath] === changelistId) {
+                delete assignments[relativePath];
+            }
+        }
+    }
+
     public getShelvedFilesForChangelist(changelistId: string): ShelvedFile[] {
         const changelist = this.getChangelist(changelistId);
         if (!changelist) return [];
@@ -429,7 +914,38 @@ export class ChangelistService implements vscode.Disposable {
     }
 
     /**
-     * Get all versions of a specific file across all changelists.
+     * Find a snapshot of a path in a changelist.
+     * Without revisionAt the latest snapshot is returned; otherwise the one shelved at that time.
+     */
+    private findSnapshot(
+        changelist: Changelist,
+        relativePath: string,
+        revisionAt?: number
+    ): ShelvedFile | ShelvedFileRevision | undefined {
+        const normalizedPath = normalizePath(relativePath);
+        const shelvedFile = changelist.shelvedFiles.find(
+            f => normalizePath(f.relativePath) === normalizedPath
+        );
+
+        if (!shelvedFile || revisionAt === undefined || shelvedFile.shelvedAt === revisionAt) {
+            return shelvedFile;
+        }
+
+        return shelvedFile.history?.find(r => r.shelvedAt === revisionAt);
+    }
+
+    /**
+     * Copy of a shelved file without its history, to be kept as an older revision
+     */
+    private toRevision(shelvedFile: ShelvedFile): ShelvedFileRevision {
+        const revision: ShelvedFile = { ...shelvedFile };
+        delete revision.history;
+        return revision;
+    }
+
+    /**
+     * Get all versions of a specific file across all changelists,
+     * including older revisions kept inside each changelist.
      * Returns versions sorted by timestamp (newest first).
      */
     public getFileVersions(relativePath: string): FileVersion[] {
@@ -443,7 +959,18 @@ export class ChangelistService implements vscode.Disposable {
                         changelist,
                         shelvedFile,
                         label: changelist.label,
-                        timestamp: shelvedFile.shelvedAt
+                        timestamp: shelvedFile.shelvedAt,
+                        isRevision: false
+                    });
+
+                    (shelvedFile.history || []).forEach((revision, index) => {
+                        versions.push({
+                            changelist,
+                            shelvedFile: revision,
+                            label: `${changelist.label} (rev ${index + 1})`,
+                            timestamp: revision.shelvedAt,
+                            isRevision: true
+                        });
                     });
                 }
             }
@@ -453,98 +980,370 @@ export class ChangelistService implements vscode.Disposable {
         return versions.sort((a, b) => b.timestamp - a.timestamp);
     }
 
-    // ========== Shelve/Unshelve Operations ==========
+    /**
+     * Get the shelved content of a snapshot as text
+     */
+    public async getSnapshotContent(shelvedFile: ShelvedFile): Promise<string | undefined> {
+        const bytes = await this.getSnapshotBytes(shelvedFile);
+        return bytes && decodeText(bytes, shelvedFile.encoding);
+    }
 
     /**
-     * Save a snapshot of the file to a changelist.
-     * This saves the FULL CONTENT of the file WITHOUT reverting it.
-     * The file stays as-is in the working directory so you can continue editing.
+     * Get the HEAD content recorded when a snapshot was taken, as text
      */
-    public async shelveFile(relativePath: string, targetChangelistId: string): Promise<void> {
-        if (!this.git) {
-            throw new Error('Git not initialized');
-        }
+    public async getHeadContent(shelvedFile: ShelvedFile): Promise<string | undefined> {
+        const bytes = await this.getHeadBytes(shelvedFile);
+        return bytes && decodeText(bytes);
+    }
 
-        const normalizedPath = normalizePath(relativePath);
-        const file = this.changedFiles.get(normalizedPath);
-        if (!file) {
-            throw new Error(`File not found in changes: ${relativePath}`);
-        }
+    /**
+     * Get the exact shelved bytes of a snapshot
+     */
+    public async getSnapshotBytes(shelvedFile: ShelvedFile): Promise<Buffer | undefined> {
+        return this.readContent(shelvedFile.originalContent, shelvedFile.contentHash, this.getInlineEncoding(shelvedFile));
+    }
 
-        const changelist = this.getChangelist(targetChangelistId);
-        if (!changelist) {
-            throw new Error(`Changelist not found: ${targetChangelistId}`);
-        }
+    /**
+     * Get the exact HEAD bytes recorded when a snapshot was taken
+     */
+    public async getHeadBytes(shelvedFile: ShelvedFile): Promise<Buffer | undefined> {
+        return this.readContent(shelvedFile.headContent, shelvedFile.headHash, this.getInlineEncoding(shelvedFile));
+    }
 
-        if (changelist.isDefault) {
-            throw new Error('Cannot save to default changelist');
+    private async readContent(inline: string | undefined, hash: string | undefined, encoding: BufferEncoding): Promise<Buffer | undefined> {
+        if (inline !== undefined) {
+            return Buffer.from(inline, encoding);
         }
+        return hash ? this.store.get(hash) : undefined;
+    }
 
-        const absolutePath = getAbsolutePathFromRepo(normalizedPath, this.repository.path);
-
-        try {
-            // Save the full current content of the file
-            let currentContent: string | undefined;
-            let headContent: string | undefined;
+    /**
+     * How inline content is written: UTF-8 text as-is, anything else (binaries, other text encodings) as base64
+     */
+    private getInlineEncoding(shelvedFile: ShelvedFile | ShelvedFileRevision): BufferEncoding {
+        const isPlainText = !shelvedFile.isBinary && (!shelvedFile.encoding || shelvedFile.encoding === 'utf8');
+        return isPlainText ? 'utf8' : 'base64';
+    }
 
-            if (file.status === 'deleted') {
+    /**
+     * What a snapshot stores for a working tree path: a regular file's content, a symlink's
+     * target or the commit a submodule has checked out (undefined when nothing exists there)
+     */
+    private async readWorkingEntry(absolutePath: string): Promise<Buffer | undefined> {
+        switch (getEntryKind(absolutePath)) {
+            case 'symlink':
+                return fs.readlinkSync(absolutePath, 'buffer');
+            case 'submodule':
+                return Buffer.from((await simpleGit(absolutePath).revparse(['HEAD'])).trim());
+            case 'file':
+                return fs.readFileSync(absolutePath);
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Permission bits, encoding and line-ending style of a working file, recorded with its snapshot
+     */
+    private describeFile(absolutePath: string, content: Buffer | undefined): Pick<ShelvedFile, 'mode' | 'encoding' | 'eol'> {
+        if (content === undefined) {
+            return {};
+        }
+
+        return { mode: fs.statSync(absolutePath).mode & 0o777, ...this.describeContent(content) };
+    }
+
+    /**
+     * Text encoding and line endings of snapshot content (nothing for binaries)
+     */
+    private describeContent(content: Buffer | undefined): Pick<ShelvedFile, 'encoding' | 'eol'> {
+        if (content === undefined || isBinaryContent(content)) {
+            return {};
+        }
+
+        const encoding = detectEncoding(content);
+        return { encoding, eol: detectLineEnding(decodeText(content, encoding)) };
+    }
+
+    /**
+     * Give a restored file the permission bits it had when shelved
+     */
+    private restoreMode(absolutePath: string, shelvedFile: ShelvedFile | ShelvedFileRevision): void {
+        if (shelvedFile.mode !== undefined && process.platform !== 'win32' && fs.existsSync(absolutePath)) {
+            fs.chmodSync(absolutePath, shelvedFile.mode);
+        }
+    }
+
+    /**
+     * Read the exact bytes of a file at a git ref (undefined if it does not exist there)
+     */
+    public async getCommittedBytes(relativePath: string, ref: string = 'HEAD'): Promise<Buffer | undefined> {
+        if (!this.git) {
+            throw new Error('Git not initialized');
+        }
+
+        try {
+            return await this.git.binaryCatFile(['-p', `${ref}:${normalizePath(relativePath)}`]);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Path a snapshot's HEAD content was read from: the old path of a rename, else the file itself
+     */
+    private getBasePath(shelvedFile: ShelvedFile | ShelvedFileRevision): string {
+        return normalizePath(shelvedFile.originalPath ?? shelvedFile.relativePath);
+    }
+
+    // ========== Shelve/Unshelve Operations ==========
+
+    /**
+     * Save a snapshot of the file to a changelist.
+     * This saves the FULL CONTENT of the file WITHOUT reverting it.
+     * The file stays as-is in the working directory so you can continue editing.
+     */
+    public async shelveFile(relativePath: string, targetChangelistId: string): Promise<void> {
+        if (!this.git) {
+            throw new Error('Git not initialized');
+        }
+
+        const normalizedPath = normalizePath(relativePath);
+        const file = this.changedFiles.get(normalizedPath);
+        if (!file) {
+            throw new Error(`File not found in changes: ${relativePath}`);
+        }
+
+        const changelist = this.getChangelist(targetChangelistId);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${targetChangelistId}`);
+        }
+
+        if (changelist.isDefault) {
+            throw new Error('Cannot save to default changelist');
+        }
+
+        if (changelist.archivedAt) {
+            throw new Error(`${changelist.label} is archived`);
+        }
+
+        const absolutePath = getAbsolutePathFromRepo(normalizedPath, this.repository.path);
+
+        try {
+            // Save the full current content of the file (raw bytes, so binaries survive)
+            let currentContent: Buffer | undefined;
+            let headContent: Buffer | undefined;
+            const kind = getEntryKind(absolutePath);
+
+            if (file.status === 'deleted') {
                 // File was deleted, no current content
                 currentContent = undefined;
-            } else if (fs.existsSync(absolutePath)) {
-                currentContent = fs.readFileSync(absolutePath, 'utf8');
+            } else {
+                currentContent = await this.readWorkingEntry(absolutePath);
             }
 
-            // Get HEAD content for tracked files
+            // Get HEAD content for tracked files (a rename's base is the old path)
             if (file.status !== 'untracked') {
                 try {
-                    headContent = await this.git.show([`HEAD:${normalizedPath}`]);
+                    const headPath = `HEAD:${file.originalPath ?? normalizedPath}`;
+                    headContent = kind === 'submodule'
+                        ? Buffer.from((await this.git.revparse([headPath])).trim())
+                        : await this.git.binaryCatFile(['-p', headPath]);
                 } catch {
                     // File doesn't exist in HEAD (newly added)
                     headContent = undefined;
                 }
             }
 
-            // Check if this file already exists in the changelist
-            const existingIndex = changelist.shelvedFiles.findIndex(
-                f => normalizePath(f.relativePath) === normalizedPath
-            );
-
-            // Create snapshot entry with FULL content
+            // Create snapshot entry; the full content goes to the blob store
             const shelvedFile: ShelvedFile = {
                 relativePath: normalizedPath,
                 status: file.status,
                 patch: '', // Not used anymore
-                originalContent: currentContent, // This is the saved version
-                headContent, // This is what HEAD has
+                contentHash: currentContent !== undefined ? await this.store.put(currentContent) : undefined, // This is the saved version
+                headHash: headContent !== undefined ? await this.store.put(headContent) : undefined, // This is what HEAD has
                 shelvedAt: Date.now(),
                 originalPath: file.originalPath,
-                repoPath: this.repository.path
+                repoPath: this.repository.path,
+                ...(kind === 'symlink' || kind === 'submodule'
+                    ? { kind }
+                    : {
+                        isBinary: (currentContent && isBinaryContent(currentContent)) ||
+                            (headContent && isBinaryContent(headContent)) || undefined,
+                        ...this.describeFile(absolutePath, currentContent)
+                    })
             };
 
-            if (existingIndex >= 0) {
-                // Replace existing snapshot
-                changelist.shelvedFiles[existingIndex] = shelvedFile;
-                log(`Updated snapshot: ${relativePath} in ${changelist.label}`);
-            } else {
-                // Add new snapshot
-                changelist.shelvedFiles.push(shelvedFile);
-                log(`Saved snapshot: ${relativePath} to ${changelist.label}`);
-            }
-
-            // Save snapshot to file for CLI tool access
-            await this.saveSnapshotToFile(shelvedFile, changelist);
+            await this.recordSnapshot(changelist, shelvedFile, currentContent);
 
             // DO NOT revert the file - leave it as-is so user can continue working
             // The file stays in working directory with current changes
-
-            await this.saveState();
-            this._onDidChangeChangelists.fire();
         } catch (error) {
             log(`Failed to save snapshot: ${error}`, 'error');
             throw error;
         }
     }
 
+    /**
+     * Add a snapshot to a changelist and persist it.
+     * An earlier snapshot of the same path is kept as a revision, unless nothing changed since.
+     */
+    private async recordSnapshot(changelist: Changelist, shelvedFile: ShelvedFile, content: Buffer | undefined): Promise<void> {
+        const existingIndex = changelist.shelvedFiles.findIndex(
+            f => normalizePath(f.relativePath) === shelvedFile.relativePath
+        );
+
+        if (existingIndex >= 0) {
+            const existing = changelist.shelvedFiles[existingIndex];
+            const unchanged = existing.contentHash === shelvedFile.contentHash &&
+                existing.headHash === shelvedFile.headHash &&
+                existing.mode === shelvedFile.mode &&
+                !!existing.isPartial === !!shelvedFile.isPartial;
+
+            shelvedFile.history = unchanged || (changelist.automatic === 'localHistory' && this.isWithinLocalHistoryInterval(existing, shelvedFile))
+                ? existing.history
+                : [...(existing.history || []), this.toRevision(existing)];
+            changelist.shelvedFiles[existingIndex] = shelvedFile;
+            log(`Updated snapshot: ${shelvedFile.relativePath} in ${changelist.label}`);
+        } else {
+            changelist.shelvedFiles.push(shelvedFile);
+            log(`Saved snapshot: ${shelvedFile.relativePath} to ${changelist.label}`);
+        }
+
+        if (changelist.automatic) {
+            this.pruneAutomaticChangelist(changelist, shelvedFile.shelvedAt);
+        }
+
+        // Save snapshot to file for CLI tool access
+        await this.saveSnapshotToFile(shelvedFile, changelist, content);
+
+        await this.saveState();
+        this._onDidChangeChangelists.fire();
+    }
+
+    /**
+     * Hunks of a working file's diff against HEAD, for picking what to shelve
+     */
+    public async getWorkingHunks(relativePath: string): Promise<Hunk[]> {
+        const { head, working } = await this.readPartialSides(relativePath);
+        return diffLines(splitLines(head), splitLines(working));
+    }
+
+    /**
+     * Shelve only some hunks of a working file (indexes into getWorkingHunks)
+     */
+    public async shelveHunks(relativePath: string, targetChangelistId: string, hunkIndexes: number[]): Promise<void> {
+        await this.shelvePartial(relativePath, targetChangelistId, hunks => ({
+            selected: hunks.filter((_, index) => hunkIndexes.includes(index)),
+            remaining: hunks.filter((_, index) => !hunkIndexes.includes(index))
+        }));
+    }
+
+    /**
+     * Shelve only the changed lines of a working file within a line range (0-based, inclusive)
+     */
+    public async shelveLines(relativePath: string, targetChangelistId: string, startLine: number, endLine: number): Promise<void> {
+        await this.shelvePartial(relativePath, targetChangelistId, hunks => splitHunksAtLines(hunks, startLine, endLine));
+    }
+
+    /**
+     * Shelve part of a working file's diff against HEAD.
+     * The snapshot holds HEAD plus the selected hunks; the selected hunks are then
+     * removed from the working file, so only the remaining changes stay there.
+     */
+    private async shelvePartial(
+        relativePath: string,
+        targetChangelistId: string,
+        pick: (hunks: Hunk[]) => { selected: Hunk[]; remaining: Hunk[] }
+    ): Promise<void> {
+        const changelist = this.getChangelist(targetChangelistId);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${targetChangelistId}`);
+        }
+        if (changelist.isDefault) {
+            throw new Error('Cannot save to default changelist');
+        }
+        if (changelist.archivedAt) {
+            throw new Error(`${changelist.label} is archived`);
+        }
+        if (changelist.automatic) {
+            throw new Error(`Cannot add snapshots to ${changelist.label}`);
+        }
+
+        const normalizedPath = normalizePath(relativePath);
+        const { file, headContent, head, working, encoding } = await this.readPartialSides(normalizedPath);
+        const headLines = splitLines(head);
+        const { selected, remaining } = pick(diffLines(headLines, splitLines(working)));
+        if (selected.length === 0) {
+            throw new Error('No changes selected');
+        }
+
+        // Both the snapshot and the rewritten working file keep the working file's encoding
+        const absolutePath = getAbsolutePathFromRepo(normalizedPath, this.repository.path);
+        const shelvedContent = encodeText(applyHunks(headLines, selected).join(''), encoding);
+
+        const shelvedFile: ShelvedFile = {
+            relativePath: normalizedPath,
+            status: file.status,
+            patch: '',
+            contentHash: await this.store.put(shelvedContent),
+            headHash: await this.store.put(headContent),
+            isPartial: true,
+            shelvedAt: Date.now(),
+            originalPath: file.originalPath,
+            repoPath: this.repository.path,
+            ...this.describeFile(absolutePath, shelvedContent)
+        };
+
+        const label = `Shelve ${selected.length} hunk(s) of ${normalizedPath} to "${changelist.label}"`;
+        await this.journaled(label, [normalizedPath], async () => {
+            await this.captureRecovery(normalizedPath);
+
+            // Persist the snapshot before touching the working file
+            await this.recordSnapshot(changelist, shelvedFile, shelvedContent);
+
+            fs.writeFileSync(absolutePath, encodeText(applyHunks(headLines, remaining).join(''), encoding));
+        });
+
+        log(`Shelved ${selected.length} of ${selected.length + remaining.length} hunk(s) of ${normalizedPath} to ${changelist.label}`);
+        await this.refresh();
+    }
+
+    /**
+     * HEAD and working text of a file that can be shelved partially
+     */
+    private async readPartialSides(relativePath: string): Promise<{
+        file: ChangedFile;
+        headContent: Buffer;
+        head: string;
+        working: string;
+        encoding: TextEncoding;
+    }> {
+        const normalizedPath = normalizePath(relativePath);
+        const file = this.changedFiles.get(normalizedPath);
+        if (!file) {
+            throw new Error(`File not found in changes: ${relativePath}`);
+        }
+
+        const absolutePath = getAbsolutePathFromRepo(normalizedPath, this.repository.path);
+        if (getEntryKind(absolutePath) !== 'file') {
+            throw new Error('Only regular files can be shelved partially');
+        }
+
+        const head = await this.getCommittedBytes(file.originalPath ?? normalizedPath);
+        if (head === undefined || !fs.existsSync(absolutePath)) {
+            throw new Error('Partial shelving needs a file that exists both in HEAD and in the working tree');
+        }
+
+        const working = fs.readFileSync(absolutePath);
+        if (isBinaryContent(head) || isBinaryContent(working)) {
+            throw new Error('Binary files cannot be shelved partially');
+        }
+
+        const encoding = detectEncoding(working);
+        return { file, headContent: head, head: decodeText(head), working: decodeText(working, encoding), encoding };
+    }
+
     /**
      * Shelve multiple files
      */
@@ -555,26 +1354,107 @@ export class ChangelistService implements vscode.Disposable {
     }
 
     /**
-     * Restore a file from a snapshot: replace working file with saved version.
+     * Save a snapshot of each file to a changelist, then revert the working file to HEAD
+     * (or delete it when HEAD has no such file) so the working tree is clean.
+     * The snapshot is persisted before the file is touched, and a file is only reverted
+     * while it still matches its snapshot, so a failed revert never loses the change.
+     * Returns the paths that were shelved but could not be reverted.
+     */
+    public async shelveAndRevertFiles(relativePaths: string[], targetChangelistId: string): Promise<string[]> {
+        const changelist = this.getChangelist(targetChangelistId);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${targetChangelistId}`);
+        }
+
+        const notReverted: string[] = [];
+        try {
+            for (const relativePath of relativePaths) {
+                await this.shelveFile(relativePath, targetChangelistId);
+
+                const shelvedFile = this.findSnapshot(changelist, relativePath) as ShelvedFile;
+                try {
+                    await this.revertToHead(shelvedFile);
+                    log(`Shelved and reverted: ${relativePath}`);
+                } catch (error) {
+                    log(`Shelved ${relativePath} but could not revert it: ${error}`, 'warn');
+                    notReverted.push(relativePath);
+                }
+            }
+        } finally {
+            await this.refresh();
+        }
+
+        return notReverted;
+    }
+
+    /**
+     * Reset a shelved file's working copy and index entry to HEAD
+     */
+    private async revertToHead(shelvedFile: ShelvedFile): Promise<void> {
+        if (!this.git) {
+            throw new Error('Git not initialized');
+        }
+
+        const relativePath = normalizePath(shelvedFile.relativePath);
+        const absolutePath = getAbsolutePathFromRepo(relativePath, this.repository.path);
+
+        // Refuse to revert if the file was modified after the snapshot was taken
+        const current = await this.readWorkingEntry(absolutePath);
+        const snapshot = await this.getSnapshotBytes(shelvedFile);
+        const matches = current === undefined
+            ? shelvedFile.contentHash === undefined
+            : snapshot !== undefined && current.equals(snapshot);
+        if (!matches) {
+            throw new Error('File changed after it was shelved');
+        }
+
+        if (shelvedFile.kind === 'submodule') {
+            // The gitlink in the index is reset by checkout; the submodule itself has to be moved back
+            const head = await this.getHeadBytes(shelvedFile);
+            if (head === undefined) {
+                throw new Error('A newly added submodule cannot be reverted');
+            }
+            await this.git.checkout(['HEAD', '--', relativePath]);
+            await this.checkoutSubmodule(relativePath, absolutePath, head.toString());
+        } else if (shelvedFile.headHash !== undefined && !shelvedFile.originalPath) {
+            await this.git.checkout(['HEAD', '--', relativePath]);
+        } else {
+            // Not in HEAD (untracked, added or rename target): drop it from the index and disk
+            await this.git.raw(['rm', '--cached', '--force', '--ignore-unmatch', '--quiet', '--', relativePath]);
+            if (getEntryKind(absolutePath) !== undefined) {
+                fs.unlinkSync(absolutePath);
+            }
+        }
+
+        if (shelvedFile.originalPath) {
+            await this.git.checkout(['HEAD', '--', normalizePath(shelvedFile.originalPath)]);
+        }
+    }
+
+    /**
+     * Restore a file from a snapshot: replace working file with saved version,
+     * merging with changes made to the working file since the snapshot was taken.
      * The snapshot is KEPT in the changelist (not removed) so you can restore again.
+     * Pass revisionAt to restore an older revision instead of the latest one.
      */
-    public async unshelveFile(changelistId: string, relativePath: string): Promise<void> {
+    public async unshelveFile(changelistId: string, relativePath: string, revisionAt?: number): Promise<RestoreResult> {
         const changelist = this.getChangelist(changelistId);
         if (!changelist) {
             throw new Error(`Changelist not found: ${changelistId}`);
         }
 
-        const normalizedPath = normalizePath(relativePath);
-        const shelvedFile = changelist.shelvedFiles.find(
-            f => normalizePath(f.relativePath) === normalizedPath
-        );
+        const shelvedFile = this.findSnapshot(changelist, relativePath, revisionAt);
 
         if (!shelvedFile) {
             throw new Error(`File not found in changelist: ${relativePath}`);
         }
 
         // Restore the saved content to working directory
-        await this.unshelveFileInternal(shelvedFile);
+        const result = await this.journaled(
+            `Restore ${shelvedFile.relativePath} from "${changelist.label}"`,
+            this.getJournalPaths([shelvedFile]),
+            () => this.unshelveFileInternal(shelvedFile, changelist.label)
+        );
 
         // DO NOT remove from changelist - keep the snapshot for future restores
         // User can manually delete if they don't need it anymore
@@ -583,13 +1463,14 @@ export class ChangelistService implements vscode.Disposable {
         this._onDidChangeChangelists.fire();
 
         log(`Restored file: ${relativePath} from ${changelist.label}`);
+        return result;
     }
 
     /**
      * Apply a snapshot and stage it for commit.
-     * This restores the file AND runs git add on it.
+     * This restores the file AND runs git add on it; a file left with conflicts is not staged.
      */
-    public async applyAndStage(changelistId: string, relativePath: string): Promise<void> {
+    public async applyAndStage(changelistId: string, relativePath: string, revisionAt?: number): Promise<RestoreResult> {
         if (!this.git) {
             throw new Error('Git not initialized');
         }
@@ -600,30 +1481,32 @@ export class ChangelistService implements vscode.Disposable {
         }
 
         const normalizedPath = normalizePath(relativePath);
-        const shelvedFile = changelist.shelvedFiles.find(
-            f => normalizePath(f.relativePath) === normalizedPath
-        );
+        const shelvedFile = this.findSnapshot(changelist, normalizedPath, revisionAt);
 
         if (!shelvedFile) {
             throw new Error(`File not found in changelist: ${relativePath}`);
         }
 
         // Restore the saved content to working directory
-        await this.unshelveFileInternal(shelvedFile);
+        const result = await this.unshelveFileInternal(shelvedFile, changelist.label);
 
-        // Stage the file for commit
-        await this.git.add([normalizedPath]);
+        // Stage the file for commit (a rename's old path was already removed from the index)
+        if (result.conflicts === 0) {
+            await this.git.add([normalizedPath]);
+        }
 
         await this.refresh();
         this._onDidChangeChangelists.fire();
 
         log(`Applied and staged: ${relativePath} from ${changelist.label}`);
+        return result;
     }
 
     /**
      * Apply all snapshots from a changelist and stage them for commit.
+     * Files left with conflicts are not staged.
      */
-    public async applyAllAndStage(changelistId: string): Promise<void> {
+    public async applyAllAndStage(changelistId: string): Promise<RestoreResult[]> {
         if (!this.git) {
             throw new Error('Git not initialized');
         }
@@ -638,41 +1521,93 @@ export class ChangelistService implements vscode.Disposable {
         }
 
         // Restore all files
-        for (const shelvedFile of changelist.shelvedFiles) {
-            await this.unshelveFileInternal(shelvedFile);
+        const results: RestoreResult[] = [];
+        for (const shelvedFile of [...changelist.shelvedFiles]) {
+            results.push(await this.unshelveFileInternal(shelvedFile, changelist.label));
         }
 
-        // Stage all files
-        const filePaths = changelist.shelvedFiles.map(f => f.relativePath);
-        await this.git.add(filePaths);
+        // Stage all files that merged cleanly
+        const filePaths = results.filter(r => r.conflicts === 0).map(r => r.relativePath);
+        if (filePaths.length > 0) {
+            await this.git.add(filePaths);
+        }
 
         await this.refresh();
         this._onDidChangeChangelists.fire();
 
         log(`Applied and staged all from: ${changelist.label}`);
+        return results;
     }
 
     /**
-     * Internal unshelve logic - restores the shelved content directly
+     * Internal unshelve logic - restores the shelved content onto the working file.
+     * When the working file changed since the snapshot was taken, the two are merged
+     * three-way (base = HEAD content at shelve time); conflicts are written as conflict markers.
      */
-    private async unshelveFileInternal(shelvedFile: ShelvedFile): Promise<void> {
+    private async unshelveFileInternal(
+        shelvedFile: ShelvedFile | ShelvedFileRevision,
+        changelistLabel: string
+    ): Promise<RestoreResult> {
         // Use shelved file's repo path if available, otherwise use this service's repo
         const repoPath = shelvedFile.repoPath || this.repository.path;
         const absolutePath = getAbsolutePathFromRepo(shelvedFile.relativePath, repoPath);
+        const result: RestoreResult = { relativePath: shelvedFile.relativePath, merged: false, conflicts: 0 };
 
         try {
-            if (shelvedFile.status === 'deleted') {
-                // File was deleted - delete it again
-                if (fs.existsSync(absolutePath)) {
+            const content = await this.getSnapshotBytes(shelvedFile);
+            const base = await this.getHeadBytes(shelvedFile) ?? Buffer.alloc(0);
+
+            if (shelvedFile.originalPath && shelvedFile.status !== 'deleted') {
+                if (await this.restoreRenameSource(shelvedFile, base, repoPath)) {
+                    result.conflicts++;
+                }
+            }
+
+            const working = await this.readWorkingEntry(absolutePath);
+            if (working !== undefined && !working.equals(base) && (content === undefined || !working.equals(content))) {
+                await this.captureRecovery(shelvedFile.relativePath);
+            }
+
+            if (shelvedFile.kind === 'symlink' || shelvedFile.kind === 'submodule') {
+                result.conflicts += await this.restoreLinkEntry(shelvedFile, content, base, working, absolutePath);
+            } else if (shelvedFile.status === 'deleted') {
+                // File was deleted - delete it again, unless it was changed since
+                if (working !== undefined && !working.equals(base)) {
+                    log(`Kept ${shelvedFile.relativePath}: changed in the working file, deleted in the snapshot`, 'warn');
+                    result.conflicts = 1;
+                } else if (working !== undefined) {
                     fs.unlinkSync(absolutePath);
                 }
-            } else if (shelvedFile.originalContent !== undefined) {
-                // Restore the full content of the shelved file
-                const dir = path.dirname(absolutePath);
-                if (!fs.existsSync(dir)) {
-                    fs.mkdirSync(dir, { recursive: true });
+            } else if (content !== undefined) {
+                if (working === undefined || working.equals(base)) {
+                    // Nothing to keep: restore the full content of the shelved file
+                    const dir = path.dirname(absolutePath);
+                    if (!fs.existsSync(dir)) {
+                        fs.mkdirSync(dir, { recursive: true });
+                    }
+                    fs.writeFileSync(absolutePath, content);
+                    this.restoreMode(absolutePath, shelvedFile);
+                } else if (working.equals(content)) {
+                    // Already restored
+                } else if (shelvedFile.isBinary || isBinaryContent(working)) {
+                    log(`Binary file ${shelvedFile.relativePath} cannot be merged, overwriting working changes`, 'warn');
+                    fs.writeFileSync(absolutePath, content);
+                    this.restoreMode(absolutePath, shelvedFile);
+                } else {
+                    // Merge as text, written back in the snapshot's encoding
+                    const encoding = shelvedFile.encoding ?? detectEncoding(content);
+                    const merge = mergeLines(
+                        splitLines(decodeText(base)),
+                        splitLines(decodeText(working)),
+                        splitLines(decodeText(content, encoding)),
+                        { ours: 'Working file', theirs: `Snapshot (${changelistLabel})` },
+                        shelvedFile.eol === 'crlf' ? '\r\n' : '\n'
+                    );
+                    fs.writeFileSync(absolutePath, encodeText(merge.lines.join(''), encoding));
+                    this.restoreMode(absolutePath, shelvedFile);
+                    result.merged = true;
+                    result.conflicts += merge.conflicts;
                 }
-                fs.writeFileSync(absolutePath, shelvedFile.originalContent, 'utf8');
             } else if (shelvedFile.patch) {
                 // Legacy: apply patch for old shelved files
                 if (!this.git) {
@@ -693,21 +1628,141 @@ export class ChangelistService implements vscode.Disposable {
             log(`Failed to unshelve file: ${error}`, 'error');
             throw error;
         }
+
+        if (result.conflicts > 0) {
+            log(`Restored ${shelvedFile.relativePath} with ${result.conflicts} conflict(s)`, 'warn');
+        }
+        return result;
+    }
+
+    /**
+     * Restore a symlink or submodule snapshot: recreate the link with the shelved target,
+     * or check out the shelved commit in the submodule. These cannot be merged, so a working
+     * entry changed since the snapshot was taken is replaced (or kept, when the snapshot deletes it).
+     * Returns the number of conflicts.
+     */
+    private async restoreLinkEntry(
+        shelvedFile: ShelvedFile | ShelvedFileRevision,
+        content: Buffer | undefined,
+        base: Buffer,
+        working: Buffer | undefined,
+        absolutePath: string
+    ): Promise<number> {
+        const relativePath = normalizePath(shelvedFile.relativePath);
+
+        if (shelvedFile.status === 'deleted') {
+            if (working === undefined) {
+                return 0;
+            }
+            if (shelvedFile.kind === 'submodule' || !working.equals(base)) {
+                log(`Kept ${relativePath}: the snapshot deletes it, remove it manually if needed`, 'warn');
+                return 1;
+            }
+            fs.unlinkSync(absolutePath);
+            return 0;
+        }
+
+        if (content === undefined || (working !== undefined && working.equals(content))) {
+            return 0;
+        }
+        if (working !== undefined && !working.equals(base)) {
+            log(`${relativePath} cannot be merged, replacing working changes`, 'warn');
+        }
+
+        if (shelvedFile.kind === 'submodule') {
+            await this.checkoutSubmodule(relativePath, absolutePath, content.toString());
+        } else {
+            const existing = getEntryKind(absolutePath);
+            if (existing === 'submodule') {
+                throw new Error(`${relativePath} is a submodule in the working tree`);
+            }
+            if (existing !== undefined) {
+                fs.unlinkSync(absolutePath);
+            }
+            fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+            fs.symlinkSync(content, absolutePath);
+        }
+        return 0;
+    }
+
+    /**
+     * Check out a commit in a submodule, initializing the submodule first if needed
+     */
+    private async checkoutSubmodule(relativePath: string, absolutePath: string, commit: string): Promise<void> {
+        if (!this.git) {
+            throw new Error('Git not initialized');
+        }
+
+        if (!hasGitDir(absolutePath)) {
+            await this.git.raw(['submodule', 'update', '--init', '--', relativePath]);
+        }
+        await simpleGit(absolutePath).raw(['checkout', '--quiet', commit]);
+    }
+
+    /**
+     * Undo the old side of a shelved rename before its content is restored.
+     * The old path is moved with git mv when the new path does not exist yet (so its
+     * working changes are merged with the snapshot), and removed otherwise. An old path
+     * that changed since the snapshot was taken is kept; returns whether it was kept.
+     */
+    private async restoreRenameSource(
+        shelvedFile: ShelvedFile | ShelvedFileRevision,
+        base: Buffer,
+        repoPath: string
+    ): Promise<boolean> {
+        if (!this.git || !shelvedFile.originalPath) {
+            throw new Error('Git not initialized');
+        }
+
+        const relativePath = normalizePath(shelvedFile.relativePath);
+        const originalPath = normalizePath(shelvedFile.originalPath);
+        const absolutePath = getAbsolutePathFromRepo(relativePath, repoPath);
+        const originalAbsolutePath = getAbsolutePathFromRepo(originalPath, repoPath);
+
+        if (!fs.existsSync(originalAbsolutePath)) {
+            // Already gone from disk: make sure the index agrees
+            await this.git.raw(['rm', '--cached', '--force', '--ignore-unmatch', '--quiet', '--', originalPath]);
+            return false;
+        }
+
+        if (!fs.existsSync(absolutePath)) {
+            fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+            try {
+                await this.git.raw(['mv', '--', originalPath, relativePath]);
+            } catch {
+                // Not tracked: a plain move does the same on disk
+                fs.renameSync(originalAbsolutePath, absolutePath);
+            }
+            return false;
+        }
+
+        if (!fs.readFileSync(originalAbsolutePath).equals(base)) {
+            log(`Kept ${originalPath}: changed in the working tree, renamed to ${relativePath} in the snapshot`, 'warn');
+            return true;
+        }
+
+        await this.git.raw(['rm', '--cached', '--force', '--ignore-unmatch', '--quiet', '--', originalPath]);
+        fs.unlinkSync(originalAbsolutePath);
+        return false;
     }
 
     /**
      * Restore all files from a changelist to working directory.
      * Snapshots are KEPT in the changelist.
      */
-    public async unshelveAll(changelistId: string): Promise<void> {
+    public async unshelveAll(changelistId: string): Promise<RestoreResult[]> {
         const changelist = this.getChangelist(changelistId);
         if (!changelist) {
             throw new Error(`Changelist not found: ${changelistId}`);
         }
 
-        for (const shelvedFile of changelist.shelvedFiles) {
-            await this.unshelveFileInternal(shelvedFile);
-        }
+        const results: RestoreResult[] = [];
+        await this.journaled(`Restore all from "${changelist.label}"`, this.getJournalPaths(changelist.shelvedFiles), async () => {
+            // A copy: restoring from Recovery can add to it
+            for (const shelvedFile of [...changelist.shelvedFiles]) {
+                results.push(await this.unshelveFileInternal(shelvedFile, changelist.label));
+            }
+        });
 
         // DO NOT clear shelvedFiles - keep snapshots for future restores
 
@@ -715,6 +1770,7 @@ export class ChangelistService implements vscode.Disposable {
         this._onDidChangeChangelists.fire();
 
         log(`Restored all files from: ${changelist.label}`);
+        return results;
     }
 
     // ========== Git Operations ==========
@@ -727,15 +1783,29 @@ export class ChangelistService implements vscode.Disposable {
             throw new Error('Git not initialized');
         }
 
-        const files = this.getChangedFiles();
+        const excluded = new Set(this.getExcludedFiles());
+        const files = this.getChangedFiles().filter(f => !excluded.has(f.relativePath));
         if (files.length === 0) {
-            throw new Error('No files to commit');
+            throw new Error(excluded.size > 0 ? 'No files to commit outside changelists excluded from commit' : 'No files to commit');
         }
 
+        // Changelists the committed files belong to, before the refresh forgets them
+        const owners = [...new Set(files.map(f => this.getChangelistForFile(f.relativePath)))].filter(cl => !cl.isDefault);
+
         try {
             const filePaths = files.map(f => f.relativePath);
             await this.git.add(filePaths);
-            await this.git.commit(message);
+            // With excluded files around, commit only these paths (and the old side of renames)
+            // so excluded ones staged earlier stay out
+            await this.git.commit(message, excluded.size > 0
+                ? [...filePaths, ...files.flatMap(f => f.originalPath ? [f.originalPath] : [])]
+                : undefined);
+
+            if (owners.length > 0) {
+                await this.recordCommit(owners);
+                await this.saveState();
+                this._onDidChangeChangelists.fire();
+            }
 
             log(`Committed ${files.length} files`);
             await this.refresh();
@@ -763,6 +1833,10 @@ export class ChangelistService implements vscode.Disposable {
             return this.commitWorkingChanges(message);
         }
 
+        if (changelist.archivedAt) {
+            throw new Error(`${changelist.label} is archived`);
+        }
+
         if (changelist.shelvedFiles.length === 0) {
             throw new Error('No shelved files to commit');
         }
@@ -774,18 +1848,47 @@ export class ChangelistService implements vscode.Disposable {
                 await this.git.stash(['push', '-m', 'git-changelists-temp']);
             }
 
+            // Files HEAD does not have are left by the stash; keep them in case the commit is called off
+            const restoredPaths = this.getJournalPaths(changelist.shelvedFiles);
+            const untracked = new Map<string, Buffer>();
+            for (const relativePath of restoredPaths) {
+                const absolutePath = getAbsolutePathFromRepo(relativePath, this.repository.path);
+                if (getEntryKind(absolutePath) === 'file') {
+                    untracked.set(relativePath, fs.readFileSync(absolutePath));
+                }
+            }
+
             // Unshelve the changelist files
+            const conflicted: string[] = [];
             for (const shelvedFile of changelist.shelvedFiles) {
-                await this.unshelveFileInternal(shelvedFile);
+                const result = await this.unshelveFileInternal(shelvedFile, changelist.label);
+                if (result.conflicts > 0) {
+                    conflicted.push(result.relativePath);
+                }
             }
 
-            // Stage and commit
+            // Conflict markers must not be committed: put HEAD and the stashed changes back
+            if (conflicted.length > 0) {
+                await this.discardRestoredFiles(restoredPaths, untracked);
+                if (hasWorkingChanges) {
+                    await this.git.stash(['pop']);
+                }
+                await this.refresh();
+                throw new Error(
+                    `${conflicted.join(', ')} changed since the snapshot and would be committed with conflict markers. ` +
+                    'Rebase the snapshots onto HEAD first'
+                );
+            }
+
+            // Stage and commit
             const filePaths = changelist.shelvedFiles.map(f => f.relativePath);
             await this.git.add(filePaths);
             await this.git.commit(message);
+            await this.recordCommit([changelist]);
 
-            // Clear the shelved files
-            changelist.shelvedFiles = [];
+            // Keep the committed snapshots in the archive
+            this.archive(changelist);
+            this.pruneArchive(Date.now());
 
             // Restore working changes
             if (hasWorkingChanges) {
@@ -803,6 +1906,31 @@ export class ChangelistService implements vscode.Disposable {
         }
     }
 
+    /**
+     * Bring files back to their HEAD version and unstage them; files HEAD does not have
+     * get the given content back, or are removed
+     */
+    private async discardRestoredFiles(relativePaths: string[], untracked: Map<string, Buffer>): Promise<void> {
+        const headIds = await this.getHeadIds(relativePaths);
+        await this.git!.raw(['reset', '--quiet', 'HEAD', '--', ...relativePaths]);
+
+        const tracked = relativePaths.filter(p => headIds.has(p));
+        if (tracked.length > 0) {
+            await this.git!.checkout(['HEAD', '--', ...tracked]);
+        }
+        for (const relativePath of relativePaths.filter(p => !headIds.has(p))) {
+            const absolutePath = getAbsolutePathFromRepo(relativePath, this.repository.path);
+            const kind = getEntryKind(absolutePath);
+            const content = untracked.get(relativePath);
+            if (kind === 'file' || kind === 'symlink') {
+                fs.unlinkSync(absolutePath);
+            }
+            if (content !== undefined) {
+                fs.writeFileSync(absolutePath, content);
+            }
+        }
+    }
+
     /**
      * Revert a file in working directory
      */
@@ -818,12 +1946,15 @@ export class ChangelistService implements vscode.Disposable {
         }
 
         try {
-            if (file.status === 'untracked') {
-                const absolutePath = getAbsolutePathFromRepo(normalizedPath, this.repository.path);
-                fs.unlinkSync(absolutePath);
-            } else {
-                await this.git.checkout(['--', normalizedPath]);
-            }
+            await this.journaled(`Revert ${normalizedPath}`, [normalizedPath], async () => {
+                await this.captureRecovery(normalizedPath);
+                if (file.status === 'untracked') {
+                    const absolutePath = getAbsolutePathFromRepo(normalizedPath, this.repository.path);
+                    fs.unlinkSync(absolutePath);
+                } else {
+                    await this.git!.checkout(['--', normalizedPath]);
+                }
+            });
 
             log(`Reverted file: ${relativePath}`);
             await this.refresh();
@@ -834,20 +1965,185 @@ export class ChangelistService implements vscode.Disposable {
     }
 
     /**
-     * Delete a shelved file (discard without unshelving)
+     * Delete a shelved file (discard without unshelving).
+     * Pass revisionAt to delete a single revision and keep the rest of the history.
      */
-    public async deleteShelvedFile(changelistId: string, relativePath: string): Promise<void> {
+    public async deleteShelvedFile(changelistId: string, relativePath: string, revisionAt?: number): Promise<void> {
         const changelist = this.getChangelist(changelistId);
         if (!changelist) {
             throw new Error(`Changelist not found: ${changelistId}`);
         }
 
         const normalizedPath = normalizePath(relativePath);
-        const shelvedFile = changelist.shelvedFiles.find(
+        const index = changelist.shelvedFiles.findIndex(
             f => normalizePath(f.relativePath) === normalizedPath
         );
+        const shelvedFile = index >= 0 ? changelist.shelvedFiles[index] : undefined;
+        const history = shelvedFile?.history || [];
+
+        const label = revisionAt !== undefined && history.length > 0
+            ? `Delete revision of ${normalizedPath} from "${changelist.label}"`
+            : `Delete snapshot ${normalizedPath} from "${changelist.label}"`;
+        await this.journaled(label, [], async () => {
+            if (shelvedFile && revisionAt !== undefined && history.length > 0) {
+                if (shelvedFile.shelvedAt === revisionAt) {
+                    // Deleting the latest revision: the newest older revision takes its place
+                    const promoted: ShelvedFile = { ...history[history.length - 1], history: history.slice(0, -1) };
+                    changelist.shelvedFiles[index] = promoted;
+                    await this.saveSnapshotToFile(promoted, changelist, await this.getSnapshotBytes(promoted));
+                } else {
+                    shelvedFile.history = history.filter(r => r.shelvedAt !== revisionAt);
+                }
+            } else {
+                // Delete snapshot file
+                if (shelvedFile) {
+                    this.deleteSnapshotFile(shelvedFile, changelist);
+                }
+
+                changelist.shelvedFiles = changelist.shelvedFiles.filter(
+                    f => normalizePath(f.relativePath) !== normalizedPath
+                );
+            }
+
+            await this.saveState();
+        });
+        this._onDidChangeChangelists.fire();
+
+        log(`Deleted shelved file: ${relativePath}`);
+    }
+
+    // ========== Move/Copy Snapshots ==========
+
+    /**
+     * Whether a path exists in the working tree or at HEAD
+     */
+    public async hasPath(relativePath: string): Promise<boolean> {
+        const normalizedPath = normalizePath(relativePath);
+        if (getEntryKind(getAbsolutePathFromRepo(normalizedPath, this.repository.path)) !== undefined) {
+            return true;
+        }
+        return (await this.getCommittedBytes(normalizedPath)) !== undefined;
+    }
+
+    /**
+     * Whether a changelist holds a snapshot of a path
+     */
+    public hasSnapshot(changelistId: string, relativePath: string): boolean {
+        const changelist = this.getChangelist(changelistId);
+        return !!changelist && this.findSnapshot(changelist, relativePath) !== undefined;
+    }
+
+    /**
+     * Copy a snapshot, with its revisions, to a changelist of this service or of another repository's
+     * service (the path must exist there). With move, the snapshot is then removed from its changelist.
+     * The collision policy decides what happens when the target already has a snapshot of the path.
+     * Returns false when the snapshot was skipped.
+     */
+    public async copySnapshot(
+        changelistId: string,
+        relativePath: string,
+        target: ChangelistService,
+        targetChangelistId: string,
+        collision: SnapshotCollision,
+        move = false
+    ): Promise<boolean> {
+        const changelist = this.getChangelist(changelistId);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${changelistId}`);
+        }
+
+        const shelvedFile = this.findSnapshot(changelist, relativePath) as ShelvedFile | undefined;
+        if (!shelvedFile) {
+            throw new Error(`Snapshot not found: ${relativePath}`);
+        }
+
+        const targetChangelist = target.getChangelist(targetChangelistId);
+        if (!targetChangelist) {
+            throw new Error(`Changelist not found: ${targetChangelistId}`);
+        }
+
+        if (target === this && targetChangelistId === changelistId) {
+            throw new Error('Source and target changelist are the same');
+        }
+
+        if (target !== this && !(await target.hasPath(shelvedFile.relativePath))) {
+            throw new Error(`${shelvedFile.relativePath} does not exist in ${target.repository.name}`);
+        }
+
+        const exported = await this.exportShelvedFile(shelvedFile);
+        const label = `${move ? 'Move' : 'Copy'} snapshot ${shelvedFile.relativePath} to "${targetChangelist.label}"`;
 
-        // Delete snapshot file
+        if (target !== this) {
+            const added = await target.importSnapshot(targetChangelistId, exported, collision);
+            if (added && move) {
+                await this.journaled(label, [], () => this.removeSnapshot(changelist, shelvedFile.relativePath));
+            }
+            return added;
+        }
+
+        return this.journaled(label, [], async () => {
+            const added = await this.importSnapshot(targetChangelistId, exported, collision);
+            if (added && move) {
+                await this.removeSnapshot(changelist, shelvedFile.relativePath);
+            }
+            return added;
+        });
+    }
+
+    /**
+     * Add an exported snapshot (content inlined, see exportShelvedFile) to a changelist,
+     * resolving a collision with an existing snapshot of the same path. Returns false when skipped.
+     */
+    public async importSnapshot(changelistId: string, snapshot: ShelvedFile, collision: SnapshotCollision): Promise<boolean> {
+        const changelist = this.getChangelist(changelistId);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${changelistId}`);
+        }
+
+        if (changelist.isDefault || changelist.automatic || changelist.archivedAt) {
+            throw new Error(`Cannot add snapshots to ${changelist.label}`);
+        }
+
+        const normalizedPath = normalizePath(snapshot.relativePath);
+        const index = changelist.shelvedFiles.findIndex(f => normalizePath(f.relativePath) === normalizedPath);
+        if (index >= 0 && collision === 'skip') {
+            return false;
+        }
+
+        const incoming: ShelvedFile = { ...snapshot, repoPath: this.repository.path };
+        await this.internalizeContent(incoming);
+        if (incoming.history) {
+            incoming.history = incoming.history.map(revision => ({ ...revision, repoPath: this.repository.path }));
+            for (const revision of incoming.history) {
+                await this.internalizeContent(revision);
+            }
+        }
+
+        let latest = incoming;
+        if (index < 0) {
+            changelist.shelvedFiles.push(incoming);
+        } else if (collision === 'replace') {
+            this.deleteSnapshotFile(changelist.shelvedFiles[index], changelist);
+            changelist.shelvedFiles[index] = incoming;
+        } else {
+            latest = this.combineSnapshots(changelist.shelvedFiles[index], incoming) ?? changelist.shelvedFiles[index];
+            changelist.shelvedFiles[index] = latest;
+        }
+
+        await this.saveSnapshotToFile(latest, changelist, await this.getSnapshotBytes(latest));
+        await this.saveState();
+        this._onDidChangeChangelists.fire();
+
+        log(`Added snapshot ${normalizedPath} to ${changelist.label}`);
+        return true;
+    }
+
+    /**
+     * Drop a snapshot and its revisions from a changelist
+     */
+    private async removeSnapshot(changelist: Changelist, relativePath: string): Promise<void> {
+        const normalizedPath = normalizePath(relativePath);
+        const shelvedFile = this.findSnapshot(changelist, normalizedPath) as ShelvedFile | undefined;
         if (shelvedFile) {
             this.deleteSnapshotFile(shelvedFile, changelist);
         }
@@ -858,35 +2154,1522 @@ export class ChangelistService implements vscode.Disposable {
 
         await this.saveState();
         this._onDidChangeChangelists.fire();
+    }
 
-        log(`Deleted shelved file: ${relativePath}`);
+    // ========== Merge/Split Changelists ==========
+
+    /**
+     * Paths that more than one of the given changelists holds a snapshot of
+     */
+    public getMergeConflicts(ids: string[]): string[] {
+        const holders = new Map<string, number>();
+        for (const id of new Set(ids)) {
+            for (const shelvedFile of this.getChangelist(id)?.shelvedFiles ?? []) {
+                const normalizedPath = normalizePath(shelvedFile.relativePath);
+                holders.set(normalizedPath, (holders.get(normalizedPath) ?? 0) + 1);
+            }
+        }
+        return [...holders].filter(([, count]) => count > 1).map(([relativePath]) => relativePath).sort();
     }
 
-    // ========== Export/Import ==========
+    /**
+     * Merge changelists into the target one: their snapshots, working files and (when the target
+     * has none) description and template move over, and they are removed. For a path held by
+     * several of them, keep names the changelist whose snapshot is kept; paths not listed keep
+     * every snapshot, the newest as the latest and the others as revisions.
+     */
+    public async mergeChangelists(ids: string[], targetId: string, keep: Record<string, string> = {}): Promise<void> {
+        const target = this.getChangelist(targetId);
+        if (!target) {
+            throw new Error(`Changelist not found: ${targetId}`);
+        }
 
-    public exportChangelists(): ChangelistExport {
-        return {
-            version: 2,
-            changelists: this.state.changelists
-                .filter(cl => !cl.isDefault && cl.shelvedFiles.length > 0)
-                .map(cl => ({
-                    label: cl.label,
-                    shelvedFiles: cl.shelvedFiles
-                })),
-            exportedAt: new Date().toISOString()
+        const sources: Changelist[] = [];
+        for (const id of new Set(ids)) {
+            if (id === targetId) {
+                continue;
+            }
+            const changelist = this.getChangelist(id);
+            if (!changelist) {
+                throw new Error(`Changelist not found: ${id}`);
+            }
+            sources.push(changelist);
+        }
+
+        if (sources.length === 0) {
+            throw new Error('Select at least two changelists to merge');
+        }
+
+        for (const changelist of [target, ...sources]) {
+            if (changelist.isDefault || changelist.automatic || changelist.archivedAt) {
+                throw new Error(`${changelist.label} cannot be merged`);
+            }
+        }
+
+        const all = [target, ...sources];
+        const label = `Merge ${sources.map(cl => `"${cl.label}"`).join(', ')} into "${target.label}"`;
+        await this.journaled(label, [], async () => {
+            const merged = new Map<string, ShelvedFile>();
+            for (const changelist of all) {
+                for (const shelvedFile of changelist.shelvedFiles) {
+                    const normalizedPath = normalizePath(shelvedFile.relativePath);
+                    const keptId = keep[normalizedPath];
+                    if (keptId && keptId !== changelist.id &&
+                        all.some(cl => cl.id === keptId && this.findSnapshot(cl, normalizedPath))) {
+                        continue;
+                    }
+
+                    const existing = merged.get(normalizedPath);
+                    merged.set(normalizedPath, existing ? this.combineSnapshots(existing, shelvedFile) ?? existing : shelvedFile);
+                    this.deleteSnapshotFile(shelvedFile, changelist);
+                }
+            }
+
+            target.shelvedFiles = [...merged.values()];
+            for (const shelvedFile of target.shelvedFiles) {
+                await this.saveSnapshotToFile(shelvedFile, target, await this.getSnapshotBytes(shelvedFile));
+            }
+
+            const sourceIds = new Set(sources.map(cl => cl.id));
+            const assignments = this.state.assignments ?? {};
+            for (const [relativePath, id] of Object.entries(assignments)) {
+                if (sourceIds.has(id)) {
+                    assignments[relativePath] = target.id;
+                }
+            }
+            this.state.assignments = assignments;
+
+            for (const key of ['description', 'commitTemplate'] as const) {
+                const inherited = sources.find(cl => cl[key])?.[key];
+                if (!target[key] && inherited) {
+                    target[key] = inherited;
+                }
+            }
+
+            if (sources.some(cl => cl.isActive)) {
+                target.isActive = true;
+                this.state.activeChangelistId = target.id;
+            }
+
+            this.state.changelists = this.state.changelists.filter(cl => !sourceIds.has(cl.id));
+            await this.saveState();
+        });
+        this._onDidChangeChangelists.fire();
+
+        log(`Merged ${sources.length} changelist(s) into ${target.label}`);
+    }
+
+    /**
+     * Move the snapshots of the given paths, with their revisions, to a new changelist
+     */
+    public async splitChangelist(id: string, relativePaths: string[], label: string): Promise<Changelist> {
+        const source = this.getChangelist(id);
+        if (!source) {
+            throw new Error(`Changelist not found: ${id}`);
+        }
+
+        if (source.automatic || source.archivedAt) {
+            throw new Error(`${source.label} cannot be split`);
+        }
+
+        const paths = new Set(relativePaths.map(p => normalizePath(p)));
+        const moved = source.shelvedFiles.filter(f => paths.has(normalizePath(f.relativePath)));
+        if (moved.length === 0) {
+            throw new Error('Select at least one snapshot to split off');
+        }
+
+        const changelist: Changelist = {
+            id: generateId(),
+            label,
+            shelvedFiles: moved,
+            isDefault: false,
+            isActive: false,
+            repoPath: this.repository.path
         };
+
+        await this.journaled(`Split ${moved.length} snapshot(s) off "${source.label}" into "${label}"`, [], async () => {
+            source.shelvedFiles = source.shelvedFiles.filter(f => !moved.includes(f));
+            this.state.changelists.push(changelist);
+
+            for (const shelvedFile of moved) {
+                this.deleteSnapshotFile(shelvedFile, source);
+                await this.saveSnapshotToFile(shelvedFile, changelist, await this.getSnapshotBytes(shelvedFile));
+            }
+
+            await this.saveState();
+        });
+        this._onDidChangeChangelists.fire();
+
+        log(`Split ${moved.length} snapshot(s) off ${source.label} into ${label}`);
+        return changelist;
     }
 
-    public async importChangelists(data: ChangelistExport): Promise<number> {
-        if (!data.changelists || !Array.isArray(data.changelists)) {
-            throw new Error('Invalid import data');
+    // ========== Archive ==========
+
+    /**
+     * Committed and retired changelists, most recently archived first
+     */
+    public getArchivedChangelists(): Changelist[] {
+        return this.state.changelists
+            .filter(cl => cl.archivedAt)
+            .sort((a, b) => b.archivedAt! - a.archivedAt!);
+    }
+
+    /**
+     * Retire a changelist: it moves to the archive with its snapshots and details,
+     * and its working files go back to the default changelist
+     */
+    public async archiveChangelist(id: string): Promise<void> {
+        const changelist = this.getChangelist(id);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${id}`);
         }
 
-        let imported = 0;
+        if (changelist.isDefault || changelist.automatic || changelist.archivedAt) {
+            throw new Error(`${changelist.label} cannot be archived`);
+        }
 
-        for (const item of data.changelists) {
-            if (item.label && Array.isArray(item.shelvedFiles)) {
-                const changelist = await this.createChangelist(item.label);
+        await this.journaled(`Archive changelist "${changelist.label}"`, [], async () => {
+            this.archive(changelist);
+            this.pruneArchive(Date.now());
+            await this.saveState();
+        });
+        this._onDidChangeChangelists.fire();
+        this._onDidChangeFiles.fire();
+
+        log(`Archived changelist: ${changelist.label}`);
+    }
+
+    /**
+     * Bring an archived changelist back to the changelists in use
+     */
+    public async unarchiveChangelist(id: string): Promise<void> {
+        const changelist = this.getChangelist(id);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${id}`);
+        }
+
+        if (!changelist.archivedAt) {
+            throw new Error(`${changelist.label} is not archived`);
+        }
+
+        delete changelist.archivedAt;
+        await this.saveState();
+        this._onDidChangeChangelists.fire();
+
+        log(`Restored changelist from archive: ${changelist.label}`);
+    }
+
+    private archive(changelist: Changelist): void {
+        changelist.archivedAt = Date.now();
+        this.unassignWorkingFiles(changelist.id);
+
+        if (changelist.isActive) {
+            changelist.isActive = false;
+            const defaultCl = this.getDefaultChangelist();
+            defaultCl.isActive = true;
+            this.state.activeChangelistId = defaultCl.id;
+        }
+    }
+
+    /**
+     * Drop archived changelists beyond archiveMaxChangelists or older than archiveMaxAgeDays.
+     * Returns whether any were dropped.
+     */
+    private pruneArchive(now: number): boolean {
+        const config = getConfig();
+        const cutoff = config.archiveMaxAgeDays > 0 ? now - config.archiveMaxAgeDays * DAY_MS : 0;
+        const archived = this.getArchivedChangelists();
+        const expired = archived.filter((cl, index) =>
+            cl.archivedAt! < cutoff || (config.archiveMaxChangelists > 0 && index >= config.archiveMaxChangelists)
+        );
+        if (expired.length === 0) {
+            return false;
+        }
+
+        for (const changelist of expired) {
+            for (const shelvedFile of changelist.shelvedFiles) {
+                this.deleteSnapshotFile(shelvedFile, changelist);
+            }
+        }
+        this.state.changelists = this.state.changelists.filter(cl => !expired.includes(cl));
+
+        log(`Dropped ${expired.length} changelist(s) from the archive of ${this.repository.name}`);
+        return true;
+    }
+
+    // ========== Commits ==========
+
+    /**
+     * Note the commit HEAD now points to on the changelists it was made from
+     */
+    private async recordCommit(changelists: Changelist[]): Promise<void> {
+        if (!this.git || changelists.length === 0) {
+            return;
+        }
+
+        try {
+            const [commit] = await this.readCommits(['-1', 'HEAD']);
+            for (const changelist of changelists) {
+                changelist.commits = [...(changelist.commits ?? []), commit];
+            }
+            log(`Recorded commit ${commit.sha.slice(0, 7)} on ${changelists.map(cl => cl.label).join(', ')}`);
+        } catch (error) {
+            log(`Failed to record the commit: ${error}`, 'warn');
+        }
+    }
+
+    /**
+     * Commits of the current branch, newest first
+     */
+    public async getRecentCommits(limit: number): Promise<ChangelistCommit[]> {
+        try {
+            return await this.readCommits([`-${limit}`, 'HEAD']);
+        } catch {
+            return []; // No commits yet
+        }
+    }
+
+    /**
+     * Commits selected by git log arguments, with the current branch (empty on a detached HEAD)
+     */
+    private async readCommits(args: string[]): Promise<ChangelistCommit[]> {
+        if (!this.git) {
+            throw new Error('Git not initialized');
+        }
+
+        const output = await this.git.raw(['log', '--format=%H%x1f%an <%ae>%x1f%ct%x1f%s', ...args]);
+        const branch = (await this.git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+
+        return output.split('\n').filter(Boolean).map(line => {
+            const [sha, author, timestamp, subject] = line.split('\x1f');
+            return {
+                sha,
+                branch: branch === 'HEAD' ? '' : branch,
+                author,
+                committedAt: Number(timestamp) * 1000,
+                subject: subject ?? ''
+            };
+        });
+    }
+
+    /**
+     * First parent of a commit, or the empty tree for a root commit
+     */
+    public async getParentRef(sha: string): Promise<string> {
+        if (!this.git) {
+            throw new Error('Git not initialized');
+        }
+
+        const parent = (await this.git.raw(['rev-parse', '--verify', '--quiet', `${sha}^`]).catch(() => '')).trim();
+        return parent || EMPTY_TREE;
+    }
+
+    /**
+     * Files that differ between two commits
+     */
+    public async getCommitChanges(from: string, to: string): Promise<CommitFileChange[]> {
+        if (!this.git) {
+            throw new Error('Git not initialized');
+        }
+
+        const output = await this.git.raw(['diff', '--raw', '-z', '--no-renames', '--no-abbrev', from, to]);
+        const tokens = output.split('\0');
+        const changes: CommitFileChange[] = [];
+
+        // ":<old mode> <new mode> <old id> <new id> <status>" followed by the path
+        for (let i = 0; i + 1 < tokens.length; i += 2) {
+            const [oldMode, newMode, oldId, newId] = tokens[i].replace(/^:/, '').split(' ');
+            const hasOld = oldMode !== '000000';
+            const hasNew = newMode !== '000000';
+            const mode = hasNew ? newMode : oldMode;
+
+            changes.push({
+                relativePath: normalizePath(tokens[i + 1]),
+                status: !hasOld ? 'added' : !hasNew ? 'deleted' : 'modified',
+                beforeId: hasOld ? oldId : undefined,
+                afterId: hasNew ? newId : undefined,
+                kind: mode === '120000' ? 'symlink' : mode === '160000' ? 'submodule' : undefined,
+                mode: mode.startsWith('100') ? parseInt(mode.slice(3), 8) : undefined
+            });
+        }
+
+        return changes;
+    }
+
+    /**
+     * Content of a git object as snapshots store it: a submodule's commit SHA, otherwise the blob bytes
+     */
+    private async readGitEntry(id: string | undefined, kind?: EntryKind): Promise<Buffer | undefined> {
+        if (!id) {
+            return undefined;
+        }
+        return kind === 'submodule' ? Buffer.from(id) : this.git!.binaryCatFile(['-p', id]);
+    }
+
+    /**
+     * Undo a commit on top of HEAD as snapshots in a new changelist; the working tree is not touched.
+     * Files changed again after the commit are merged, with conflict markers where the changes overlap;
+     * binaries, symlinks and submodules changed again are left out and counted as conflicts.
+     */
+    public async revertCommitToChangelist(sha: string, label: string): Promise<{ changelist: Changelist; conflicts: number }> {
+        if (!this.git) {
+            throw new Error('Git not initialized');
+        }
+
+        const changes = await this.getCommitChanges(await this.getParentRef(sha), sha);
+        const headIds = await this.getHeadIds(changes.map(change => change.relativePath));
+        const entries: SnapshotEntry[] = [];
+        let conflicts = 0;
+
+        for (const change of changes) {
+            const headId = headIds.get(change.relativePath);
+            if (headId === change.beforeId) {
+                continue; // Already undone at HEAD
+            }
+
+            const before = await this.readGitEntry(change.beforeId, change.kind);
+            const head = await this.readGitEntry(headId, change.kind);
+            if (headId === change.afterId) {
+                entries.push({ relativePath: change.relativePath, head, content: before, kind: change.kind, mode: change.mode });
+                continue;
+            }
+
+            const after = await this.readGitEntry(change.afterId, change.kind);
+            if (change.kind || [before, after, head].some(content => content && isBinaryContent(content))) {
+                conflicts++;
+                log(`Cannot revert ${change.relativePath}: it changed again after ${sha.slice(0, 7)}`, 'warn');
+                continue;
+            }
+
+            const encoding = detectEncoding(head ?? after ?? before!);
+            const eol = this.describeContent(head).eol === 'crlf' ? '\r\n' : '\n';
+            const merge = mergeLines(
+                splitLines(after ? decodeText(after, encoding) : ''),
+                splitLines(head ? decodeText(head, encoding) : ''),
+                splitLines(before ? decodeText(before, encoding) : ''),
+                { ours: 'HEAD', theirs: `Revert of ${sha.slice(0, 7)}` },
+                eol
+            );
+            conflicts += merge.conflicts;
+
+            const merged = merge.lines.join('');
+            entries.push({
+                relativePath: change.relativePath,
+                head,
+                content: before === undefined && !merged && merge.conflicts === 0 ? undefined : encodeText(merged, encoding),
+                mode: change.mode
+            });
+        }
+
+        const changelist = await this.addChangelistFromSnapshots(label, entries);
+        log(`Reverted ${sha.slice(0, 7)} into changelist ${label} (${conflicts} conflict(s))`);
+        return { changelist, conflicts };
+    }
+
+    /**
+     * Turn a commit into a changelist: a snapshot per changed file holding its committed content,
+     * based on the parent's content. With reset, HEAD (which must be that commit) is soft-reset to
+     * the parent, so the changes stay in the working tree and index and belong to the changelist.
+     */
+    public async createChangelistFromCommit(sha: string, label: string, reset = false): Promise<Changelist> {
+        if (!this.git) {
+            throw new Error('Git not initialized');
+        }
+
+        const commit = await this.resolveCommit(sha);
+        const parent = await this.getParentRef(commit);
+
+        if (reset) {
+            if ((await this.git.revparse(['HEAD'])).trim() !== commit) {
+                throw new Error(`${commit.slice(0, 7)} is not the tip of the branch`);
+            }
+            if (parent === EMPTY_TREE) {
+                throw new Error('The first commit of a repository cannot be reset');
+            }
+        }
+
+        const changelist = await this.addChangelistFromSnapshots(label, await this.readChangeEntries(parent, commit));
+        log(`Created changelist ${label} from ${commit.slice(0, 7)}`);
+
+        if (reset) {
+            await this.git.reset(['--soft', parent]);
+            await this.refresh();
+
+            const paths = changelist.shelvedFiles.map(f => f.relativePath).filter(p => this.changedFiles.has(p));
+            if (paths.length > 0) {
+                await this.moveWorkingFiles(paths, changelist.id);
+            }
+            log(`Reset ${this.repository.name} to ${parent.slice(0, 7)}`);
+        }
+
+        return changelist;
+    }
+
+    /**
+     * Capture the difference between two refs as snapshots in a new changelist, so another branch's
+     * changes can be applied file by file. Ranges follow git: `a...b` diffs b against its merge base
+     * with a, `a..b` (or `a b`) diffs b against a, a single ref means `HEAD...ref`, and an empty side is HEAD.
+     */
+    public async createChangelistFromRefDiff(range: string, label: string): Promise<Changelist> {
+        if (!this.git) {
+            throw new Error('Git not initialized');
+        }
+
+        const match = range.trim().match(/^(\S*?)(\.\.\.?|\s+)(\S*)$/);
+        const [fromRef, separator, toRef] = match ? [match[1], match[2], match[3]] : ['HEAD', '...', range.trim()];
+        let from = await this.resolveCommit(fromRef || 'HEAD');
+        const to = await this.resolveCommit(toRef || 'HEAD');
+
+        if (separator === '...') {
+            from = (await this.git.raw(['merge-base', from, to]).catch(() => '')).trim();
+            if (!from) {
+                throw new Error(`${fromRef || 'HEAD'} and ${toRef || 'HEAD'} have no common ancestor`);
+            }
+        }
+
+        const changelist = await this.addChangelistFromSnapshots(label, await this.readChangeEntries(from, to));
+        log(`Created changelist ${label} from ${from.slice(0, 7)}..${to.slice(0, 7)}`);
+        return changelist;
+    }
+
+    /**
+     * Full SHA of the commit a ref points to
+     */
+    private async resolveCommit(ref: string): Promise<string> {
+        const sha = (await this.git!.raw(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]).catch(() => '')).trim();
+        if (!sha) {
+            throw new Error(`Unknown commit: ${ref}`);
+        }
+        return sha;
+    }
+
+    /**
+     * Snapshot entries for the files that differ between two commits: the content at `to`, based on `from`
+     */
+    private async readChangeEntries(from: string, to: string): Promise<SnapshotEntry[]> {
+        const entries: SnapshotEntry[] = [];
+        for (const change of await this.getCommitChanges(from, to)) {
+            entries.push({
+                relativePath: change.relativePath,
+                head: await this.readGitEntry(change.beforeId, change.kind),
+                content: await this.readGitEntry(change.afterId, change.kind),
+                kind: change.kind,
+                mode: change.mode
+            });
+        }
+        return entries;
+    }
+
+    /**
+     * Add a changelist holding a snapshot per entry: content is the shelved version and head the
+     * base it is restored against. Entries whose content equals their base are left out.
+     */
+    private async addChangelistFromSnapshots(label: string, entries: SnapshotEntry[]): Promise<Changelist> {
+        const shelvedAt = Date.now();
+        const shelvedFiles: ShelvedFile[] = [];
+
+        for (const { relativePath, head, content, kind, mode } of entries) {
+            const unchanged = head === undefined ? content === undefined : content !== undefined && head.equals(content);
+            if (unchanged) {
+                continue;
+            }
+
+            shelvedFiles.push({
+                relativePath: normalizePath(relativePath),
+                status: head === undefined ? 'added' : content === undefined ? 'deleted' : 'modified',
+                patch: '',
+                contentHash: content !== undefined ? await this.store.put(content) : undefined,
+                headHash: head !== undefined ? await this.store.put(head) : undefined,
+                shelvedAt,
+                repoPath: this.repository.path,
+                ...(kind
+                    ? { kind }
+                    : {
+                        isBinary: (content && isBinaryContent(content)) || (head && isBinaryContent(head)) || undefined,
+                        mode: content !== undefined ? mode : undefined,
+                        ...this.describeContent(content)
+                    })
+            });
+        }
+
+        if (shelvedFiles.length === 0) {
+            throw new Error('No file changes to put in a changelist');
+        }
+
+        const changelist: Changelist = {
+            id: generateId(),
+            label,
+            shelvedFiles,
+            isDefault: false,
+            isActive: false,
+            repoPath: this.repository.path
+        };
+        this.state.changelists.push(changelist);
+
+        for (const shelvedFile of shelvedFiles) {
+            await this.saveSnapshotToFile(shelvedFile, changelist, await this.getSnapshotBytes(shelvedFile));
+        }
+
+        await this.saveState();
+        this._onDidChangeChangelists.fire();
+        return changelist;
+    }
+
+    // ========== Exclude from Commit ==========
+
+    /**
+     * Mark a changelist so its working files are left out of commits, or clear the mark
+     */
+    public async setExcludeFromCommit(changelistId: string, exclude: boolean): Promise<void> {
+        const changelist = this.getChangelist(changelistId);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${changelistId}`);
+        }
+
+        if (exclude) {
+            changelist.excludeFromCommit = true;
+        } else {
+            delete changelist.excludeFromCommit;
+        }
+
+        await this.saveState();
+        this._onDidChangeChangelists.fire();
+
+        log(`${exclude ? 'Excluded' : 'Included'} changelist ${changelist.label} ${exclude ? 'from' : 'in'} commits`);
+    }
+
+    /**
+     * Working files assigned to changelists excluded from commit
+     */
+    public getExcludedFiles(): string[] {
+        return Object.entries(this.state.assignments ?? {})
+            .filter(([, changelistId]) => this.getChangelist(changelistId)?.excludeFromCommit)
+            .map(([relativePath]) => relativePath)
+            .sort();
+    }
+
+    /**
+     * Path of an existing pre-commit hook that was not installed by this extension
+     */
+    public async findForeignCommitHook(): Promise<string | undefined> {
+        const hookPath = await this.getGitPath('hooks/pre-commit');
+        if (!fs.existsSync(hookPath)) {
+            return undefined;
+        }
+        return fs.readFileSync(hookPath, 'utf8').includes(HOOK_MARKER) ? undefined : hookPath;
+    }
+
+    /**
+     * Install a pre-commit hook that rejects commits staging excluded files, so command-line
+     * commits follow the same list. Replaces any existing pre-commit hook; returns its path.
+     */
+    public async installCommitHook(): Promise<string> {
+        const hookPath = await this.getGitPath('hooks/pre-commit');
+        fs.mkdirSync(path.dirname(hookPath), { recursive: true });
+        fs.writeFileSync(hookPath, PRE_COMMIT_HOOK, { mode: 0o755 });
+        fs.chmodSync(hookPath, 0o755);
+
+        this.excludedListContent = undefined;
+        await this.writeExcludedList();
+
+        log(`Installed pre-commit hook: ${hookPath}`);
+        return hookPath;
+    }
+
+    /**
+     * Keep the list the pre-commit hook reads in step with the excluded files (one path per line)
+     */
+    private async writeExcludedList(): Promise<void> {
+        if (!this.git) {
+            return;
+        }
+
+        const content = this.getExcludedFiles().map(relativePath => `${relativePath}\n`).join('');
+        if (content === this.excludedListContent) {
+            return;
+        }
+
+        const listPath = await this.getGitPath(EXCLUDED_LIST);
+        if (content) {
+            fs.writeFileSync(listPath, content, 'utf8');
+        } else if (fs.existsSync(listPath)) {
+            fs.unlinkSync(listPath);
+        }
+        this.excludedListContent = content;
+    }
+
+    /**
+     * Absolute path of a file under the git dir (honours worktrees and core.hooksPath)
+     */
+    private async getGitPath(name: string): Promise<string> {
+        if (!this.git) {
+            throw new Error('Git not initialized');
+        }
+        return path.resolve(this.repository.path, (await this.git.revparse(['--git-path', name])).trim());
+    }
+
+    // ========== Automatic Changelists ==========
+
+    /**
+     * The local history or recovery changelist, created on first use
+     */
+    private getAutomaticChangelist(kind: AutomaticChangelist): Changelist {
+        const existing = this.state.changelists.find(cl => cl.automatic === kind);
+        if (existing) {
+            return existing;
+        }
+
+        const changelist: Changelist = {
+            id: generateId(),
+            label: AUTOMATIC_CHANGELIST_LABELS[kind],
+            shelvedFiles: [],
+            isDefault: false,
+            isActive: false,
+            automatic: kind,
+            repoPath: this.repository.path
+        };
+        this.state.changelists.push(changelist);
+
+        log(`Created ${changelist.label} changelist in ${this.repository.name}`);
+        return changelist;
+    }
+
+    /**
+     * Snapshot a changed file into an automatic changelist, unless its latest snapshot there
+     * already has the working content
+     */
+    private async recordAutomaticSnapshot(kind: AutomaticChangelist, file: ChangedFile): Promise<void> {
+        const changelist = this.getAutomaticChangelist(kind);
+        const latest = this.findSnapshot(changelist, file.relativePath) as ShelvedFile | undefined;
+        if (latest) {
+            const current = await this.readWorkingEntry(file.absolutePath);
+            const snapshot = await this.getSnapshotBytes(latest);
+            if (current && snapshot && current.equals(snapshot)) {
+                return;
+            }
+        }
+
+        await this.shelveFile(file.relativePath, changelist.id);
+    }
+
+    /**
+     * Capture a saved file into the local history once its saves settle
+     */
+    private scheduleLocalHistory(absolutePath: string): void {
+        if (!getConfig().localHistory) {
+            return;
+        }
+
+        clearTimeout(this.localHistoryTimers.get(absolutePath));
+        this.localHistoryTimers.set(absolutePath, setTimeout(() => {
+            this.localHistoryTimers.delete(absolutePath);
+            this.localHistoryQueue = this.localHistoryQueue
+                .then(() => this.recordLocalHistory(absolutePath))
+                .catch(error => log(`Failed to record local history: ${error}`, 'warn'));
+        }, LOCAL_HISTORY_DELAY_MS));
+    }
+
+    /**
+     * Snapshot a saved file into the local history, when it is enabled and the file is a changed
+     * tracked file of this repository. The save already refreshed the status when auto refresh is on.
+     */
+    private async recordLocalHistory(absolutePath: string): Promise<void> {
+        if (!getConfig().localHistory || !this.storeReady) {
+            return;
+        }
+
+        const relativePath = getRelativePathFromRepo(absolutePath, this.repository.path);
+        if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return;
+        }
+
+        if (!getConfig().autoRefreshOnSave) {
+            await this.refresh();
+        }
+        const file = this.changedFiles.get(normalizePath(relativePath));
+        if (!file || file.status === 'untracked' || file.status === 'ignored') {
+            return;
+        }
+
+        await this.recordAutomaticSnapshot('localHistory', file);
+    }
+
+    /**
+     * Save the working content of a changed file to the Recovery changelist before a revert or
+     * restore overwrites or deletes it. Files matching HEAD have nothing to lose and are skipped.
+     */
+    private async captureRecovery(relativePath: string): Promise<void> {
+        const file = this.changedFiles.get(normalizePath(relativePath));
+        if (!file || getEntryKind(file.absolutePath) === undefined) {
+            return;
+        }
+
+        await this.recordAutomaticSnapshot('recovery', file);
+    }
+
+    /**
+     * Whether a new local history snapshot replaces the latest one instead of keeping it as a revision:
+     * the latest came within the interval after the revision before it, and the new one within the
+     * interval after the latest. Revisions stay at least the interval apart, and the content a file
+     * had before a pause in saving is always kept.
+     */
+    private isWithinLocalHistoryInterval(latest: ShelvedFile, next: ShelvedFile): boolean {
+        const interval = getConfig().localHistoryInterval * 1000;
+        const previous = latest.history?.[latest.history.length - 1];
+        return !!previous &&
+            latest.shelvedAt - previous.shelvedAt < interval &&
+            next.shelvedAt - latest.shelvedAt < interval;
+    }
+
+    /**
+     * Apply the retention of an automatic changelist: revisions beyond the per-file count and snapshots
+     * older than the maximum age are dropped, so a file whose latest snapshot expired leaves the changelist
+     */
+    private pruneAutomaticChangelist(changelist: Changelist, now: number): void {
+        const config = getConfig();
+        const [maxRevisions, maxAgeDays] = changelist.automatic === 'localHistory'
+            ? [config.localHistoryMaxRevisions, config.localHistoryMaxAgeDays]
+            : [config.recoveryMaxRevisions, config.recoveryMaxAgeDays];
+        const cutoff = maxAgeDays > 0 ? now - maxAgeDays * DAY_MS : 0;
+
+        for (const expired of changelist.shelvedFiles.filter(f => f.shelvedAt < cutoff)) {
+            this.deleteSnapshotFile(expired, changelist);
+        }
+        changelist.shelvedFiles = changelist.shelvedFiles.filter(f => f.shelvedAt >= cutoff);
+
+        for (const shelvedFile of changelist.shelvedFiles) {
+            let history = (shelvedFile.history || []).filter(r => r.shelvedAt >= cutoff);
+            if (maxRevisions > 0) {
+                // The latest snapshot counts towards the limit
+                history = history.slice(Math.max(0, history.length - (maxRevisions - 1)));
+            }
+            shelvedFile.history = history.length > 0 ? history : undefined;
+        }
+    }
+
+    // ========== Operation Journal ==========
+
+    /**
+     * Operations that can be undone, most recent first
+     */
+    public getUndoOperations(): JournalEntry[] {
+        return [...this.journal.undo].reverse();
+    }
+
+    /**
+     * Undone operations that can be redone, most recently undone first
+     */
+    public getRedoOperations(): JournalEntry[] {
+        return [...this.journal.redo].reverse();
+    }
+
+    /**
+     * Working files that changed since the operation undo (or redo) would reverse,
+     * and would be overwritten by it
+     */
+    public async getJournalConflicts(redo = false): Promise<string[]> {
+        const entry = redo ? this.journal.redo[this.journal.redo.length - 1] : this.journal.undo[this.journal.undo.length - 1];
+        if (!entry) {
+            return [];
+        }
+
+        const expected = redo ? entry.before : entry.after;
+        const conflicts: string[] = [];
+        for (const file of expected.files) {
+            const current = await this.readWorkingEntry(getAbsolutePathFromRepo(file.relativePath, this.repository.path));
+            const recorded = file.contentHash ? await this.store.get(file.contentHash) : undefined;
+            const same = current === undefined || recorded === undefined
+                ? current === recorded
+                : current.equals(recorded);
+            if (!same) {
+                conflicts.push(file.relativePath);
+            }
+        }
+        return conflicts;
+    }
+
+    /**
+     * Labels of the changelists the operation undo (or redo) would reverse changed that were
+     * changed again since; undo and redo refuse to run over them
+     */
+    public getJournalChangelistConflicts(redo = false): string[] {
+        const entry = redo ? this.journal.redo[this.journal.redo.length - 1] : this.journal.undo[this.journal.undo.length - 1];
+        if (!entry) {
+            return [];
+        }
+
+        const expected = redo ? entry.before : entry.after;
+        const conflicts: string[] = [];
+        for (const recorded of expected.changelists) {
+            const current = this.state.changelists.find(cl => cl.id === recorded.id);
+            if (!isDeepStrictEqual(current && JSON.parse(JSON.stringify(current)), recorded.changelist)) {
+                conflicts.push(current?.label ?? recorded.changelist?.label ?? recorded.id);
+            }
+        }
+        return conflicts;
+    }
+
+    /**
+     * Bring back the working files and changelists as they were before the last operation
+     */
+    public async undoLastOperation(): Promise<JournalEntry> {
+        return this.enqueueJournal(async () => {
+            const entry = this.journal.undo[this.journal.undo.length - 1];
+            if (!entry) {
+                throw new Error('Nothing to undo');
+            }
+
+            const conflicts = this.getJournalChangelistConflicts();
+            if (conflicts.length > 0) {
+                throw new Error(`Changed since "${entry.label}": ${conflicts.join(', ')}`);
+            }
+
+            await this.applyJournalSnapshot(entry.after, entry.before);
+            await this.saveJournal({
+                undo: this.journal.undo.slice(0, -1),
+                redo: [...this.journal.redo, { ...entry, undoneAt: Date.now() }]
+            });
+
+            log(`Undid: ${entry.label}`);
+            return entry;
+        });
+    }
+
+    /**
+     * Repeat the last undone operation by bringing back the state it left
+     */
+    public async redoOperation(): Promise<JournalEntry> {
+        return this.enqueueJournal(async () => {
+            const entry = this.journal.redo[this.journal.redo.length - 1];
+            if (!entry) {
+                throw new Error('Nothing to redo');
+            }
+
+            const conflicts = this.getJournalChangelistConflicts(true);
+            if (conflicts.length > 0) {
+                throw new Error(`Changed since "${entry.label}" was undone: ${conflicts.join(', ')}`);
+            }
+
+            await this.applyJournalSnapshot(entry.before, entry.after);
+            await this.saveJournal({
+                undo: [...this.journal.undo, { ...entry, undoneAt: undefined }],
+                redo: this.journal.redo.slice(0, -1)
+            });
+
+            log(`Redid: ${entry.label}`);
+            return entry;
+        });
+    }
+
+    /**
+     * Run a destructive operation and record it in the journal: the given working files, and the
+     * changelists and file assignments it changes, are captured before and after, so it can be undone
+     * and redone. Operations wait for the one running; those started from within it are part of it.
+     */
+    private async journaled<T>(label: string, relativePaths: string[], operation: () => Promise<T>): Promise<T> {
+        if (this.journalContext.getStore()) {
+            return operation();
+        }
+
+        return this.enqueueJournal(async () => {
+            const before = await this.captureJournalSnapshot(relativePaths);
+            this.pendingJournalSnapshot = before;
+            try {
+                return await this.journalContext.run(true, operation);
+            } finally {
+                try {
+                    await this.recordOperation(label, before, await this.captureJournalSnapshot(relativePaths));
+                } catch (error) {
+                    log(`Failed to record "${label}" for undo: ${error}`, 'warn');
+                } finally {
+                    this.pendingJournalSnapshot = undefined;
+                }
+            }
+        });
+    }
+
+    /**
+     * Run a task once the journaled operations, undos and redos queued before it have finished
+     */
+    private enqueueJournal<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.journalQueue.then(task);
+        this.journalQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async recordOperation(label: string, before: JournalSnapshot, after: JournalSnapshot): Promise<void> {
+        // Keep only the changelists the operation changed, on both sides
+        const beforeById = new Map(before.changelists.map(recorded => [recorded.id, recorded]));
+        const afterById = new Map(after.changelists.map(recorded => [recorded.id, recorded]));
+        const changedBefore: JournalChangelist[] = [];
+        const changedAfter: JournalChangelist[] = [];
+        for (const id of new Set([...beforeById.keys(), ...afterById.keys()])) {
+            const old = beforeById.get(id) ?? { id };
+            const updated = afterById.get(id) ?? { id };
+            if (!isDeepStrictEqual(old.changelist, updated.changelist)) {
+                changedBefore.push(old);
+                changedAfter.push(updated);
+            }
+        }
+
+        // and the working files that changed changelist
+        const assignedBefore = new Map(before.assignments.map(assignment => [assignment.relativePath, assignment.changelistId]));
+        const assignedAfter = new Map(after.assignments.map(assignment => [assignment.relativePath, assignment.changelistId]));
+        const movedBefore: JournalAssignment[] = [];
+        const movedAfter: JournalAssignment[] = [];
+        for (const relativePath of new Set([...assignedBefore.keys(), ...assignedAfter.keys()])) {
+            if (assignedBefore.get(relativePath) !== assignedAfter.get(relativePath)) {
+                movedBefore.push({ relativePath, changelistId: assignedBefore.get(relativePath) });
+                movedAfter.push({ relativePath, changelistId: assignedAfter.get(relativePath) });
+            }
+        }
+
+        if (changedBefore.length === 0 && movedBefore.length === 0 && isDeepStrictEqual(before.files, after.files) &&
+            before.activeChangelistId === after.activeChangelistId) {
+            return;
+        }
+
+        const entry: JournalEntry = {
+            id: generateId(),
+            label,
+            timestamp: Date.now(),
+            before: { ...before, changelists: changedBefore, assignments: movedBefore },
+            after: { ...after, changelists: changedAfter, assignments: movedAfter }
+        };
+
+        // A new operation makes the undone ones unreachable
+        await this.saveJournal({ undo: [...this.journal.undo, entry].slice(-JOURNAL_LIMIT), redo: [] });
+    }
+
+    /**
+     * Paths a restore of these snapshots writes to (including the old side of renames)
+     */
+    private getJournalPaths(shelvedFiles: Array<ShelvedFile | ShelvedFileRevision>): string[] {
+        return shelvedFiles.flatMap(sf => sf.originalPath ? [sf.relativePath, sf.originalPath] : [sf.relativePath]);
+    }
+
+    private async captureJournalSnapshot(relativePaths: string[]): Promise<JournalSnapshot> {
+        const files: JournalFile[] = [];
+        for (const relativePath of new Set(relativePaths.map(p => normalizePath(p)))) {
+            const absolutePath = getAbsolutePathFromRepo(relativePath, this.repository.path);
+            const kind = getEntryKind(absolutePath);
+            const content = await this.readWorkingEntry(absolutePath);
+
+            files.push({
+                relativePath,
+                contentHash: content !== undefined ? await this.store.put(content) : undefined,
+                kind: kind === 'symlink' || kind === 'submodule' ? kind : undefined,
+                mode: kind === 'file' ? fs.statSync(absolutePath).mode & 0o777 : undefined
+            });
+        }
+
+        return {
+            files,
+            changelists: this.state.changelists.map((changelist, index) => ({
+                id: changelist.id,
+                changelist: JSON.parse(JSON.stringify(changelist)),
+                index
+            })),
+            assignments: Object.entries(this.state.assignments ?? {})
+                .map(([relativePath, changelistId]) => ({ relativePath, changelistId })),
+            activeChangelistId: this.state.activeChangelistId
+        };
+    }
+
+    /**
+     * Write the recorded working files back and put the changelists the operation changed
+     * back as recorded; changelists it did not touch stay as they are. Working files it moved
+     * go back to their recorded changelist, unless they were moved again since.
+     */
+    private async applyJournalSnapshot(from: JournalSnapshot, to: JournalSnapshot): Promise<void> {
+        for (const file of to.files) {
+            const absolutePath = getAbsolutePathFromRepo(file.relativePath, this.repository.path);
+            const content = file.contentHash ? await this.store.get(file.contentHash) : undefined;
+            if (file.contentHash && content === undefined) {
+                throw new Error(`Recorded content of ${file.relativePath} is no longer available`);
+            }
+
+            const existing = getEntryKind(absolutePath);
+            if (file.kind === 'submodule' && content !== undefined) {
+                await this.checkoutSubmodule(file.relativePath, absolutePath, content.toString());
+                continue;
+            }
+            if (existing === 'submodule') {
+                log(`Left submodule ${file.relativePath} in place`, 'warn');
+                continue;
+            }
+
+            if (existing !== undefined && (content === undefined || file.kind === 'symlink' || existing === 'symlink')) {
+                fs.unlinkSync(absolutePath);
+            }
+            if (content === undefined) {
+                continue;
+            }
+
+            fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+            if (file.kind === 'symlink') {
+                fs.symlinkSync(content, absolutePath);
+            } else {
+                fs.writeFileSync(absolutePath, content);
+                if (file.mode !== undefined && process.platform !== 'win32') {
+                    fs.chmodSync(absolutePath, file.mode);
+                }
+            }
+        }
+
+        // Keep the snapshot files in .smartchangelists/ in step with the changelists
+        const snapshotKeys = (changelists: Changelist[]) => new Map(changelists.flatMap(cl =>
+            cl.shelvedFiles.map(sf => [`${cl.id}:${sf.relativePath}:${sf.shelvedAt}`, { changelist: cl, shelvedFile: sf }] as const)
+        ));
+        const ids = new Set(to.changelists.map(recorded => recorded.id));
+        const recorded = to.changelists.filter(r => r.changelist !== undefined);
+        const current = snapshotKeys(this.state.changelists.filter(cl => ids.has(cl.id)));
+        const restored = snapshotKeys(recorded.map(r => r.changelist!));
+        for (const [key, { changelist, shelvedFile }] of current) {
+            if (!restored.has(key)) {
+                this.deleteSnapshotFile(shelvedFile, changelist);
+            }
+        }
+        for (const [key, { changelist, shelvedFile }] of restored) {
+            if (!current.has(key)) {
+                await this.saveSnapshotToFile(shelvedFile, changelist, await this.getSnapshotBytes(shelvedFile));
+            }
+        }
+
+        this.state.changelists = this.state.changelists.filter(cl => !ids.has(cl.id));
+        for (const { changelist, index } of recorded.sort((a, b) => (a.index ?? 0) - (b.index ?? 0))) {
+            this.state.changelists.splice(Math.min(index ?? Infinity, this.state.changelists.length), 0, JSON.parse(JSON.stringify(changelist)));
+        }
+        const assignments = this.state.assignments ?? {};
+        const left = new Map(from.assignments.map(assignment => [assignment.relativePath, assignment.changelistId]));
+        for (const { relativePath, changelistId } of to.assignments) {
+            if (assignments[relativePath] !== left.get(relativePath)) {
+                continue;
+            }
+            if (changelistId && this.getChangelist(changelistId)) {
+                assignments[relativePath] = changelistId;
+            } else {
+                delete assignments[relativePath];
+            }
+        }
+        this.state.assignments = assignments;
+
+        if (from.activeChangelistId !== to.activeChangelistId && this.getChangelist(to.activeChangelistId)) {
+            this.state.activeChangelistId = to.activeChangelistId;
+        }
+        await this.saveState();
+        await this.refresh();
+        this._onDidChangeChangelists.fire();
+    }
+
+    /**
+     * Drop journal entries of earlier versions, which recorded every changelist in full
+     * and no file assignments
+     */
+    private async migrateJournal(): Promise<void> {
+        const isCurrent = (entry: JournalEntry) => [entry.before, entry.after].every(snapshot =>
+            Array.isArray(snapshot.assignments) && snapshot.changelists.every(recorded => !('shelvedFiles' in recorded))
+        );
+        if (![...this.journal.undo, ...this.journal.redo].every(isCurrent)) {
+            await this.saveJournal({ undo: this.journal.undo.filter(isCurrent), redo: this.journal.redo.filter(isCurrent) });
+        }
+    }
+
+    private getJournalKey(): string {
+        return `${this.stateKey}.journal`;
+    }
+
+    private async saveJournal(journal: OperationJournal): Promise<void> {
+        this.journal = journal;
+        await this.context.workspaceState.update(this.getJournalKey(), journal);
+        this._onDidChangeJournal.fire();
+
+        // Let the store keep the journal's content, and drop what left it
+        if (this.storeReady) {
+            await this.syncStore();
+        }
+    }
+
+    /**
+     * Content ids the journal (and an operation being recorded) still needs
+     */
+    private getJournalContentIds(): Set<string> {
+        const snapshots = [
+            ...this.journal.undo.flatMap(entry => [entry.before, entry.after]),
+            ...this.journal.redo.flatMap(entry => [entry.before, entry.after]),
+            ...(this.pendingJournalSnapshot ? [this.pendingJournalSnapshot] : [])
+        ];
+
+        const ids = collectContentIds(snapshots.flatMap(snapshot =>
+            snapshot.changelists.flatMap(recorded => recorded.changelist ? [recorded.changelist] : [])
+        ));
+        for (const snapshot of snapshots) {
+            for (const file of snapshot.files) {
+                if (file.contentHash) {
+                    ids.add(file.contentHash);
+                }
+            }
+        }
+        return ids;
+    }
+
+    // ========== Stale Snapshots ==========
+
+    /**
+     * Whether HEAD changed for this file since the snapshot was taken,
+     * so restoring it as-is would revert upstream changes
+     */
+    public isSnapshotStale(changelistId: string, shelvedFile: ShelvedFile): boolean {
+        return this.staleSnapshots.has(this.getStaleKey(changelistId, shelvedFile));
+    }
+
+    private getStaleKey(changelistId: string, shelvedFile: ShelvedFile): string {
+        return `${changelistId}:${shelvedFile.relativePath}:${shelvedFile.shelvedAt}`;
+    }
+
+    /**
+     * Blob ids (gitlink SHAs for submodules) of paths at HEAD, in one call; paths missing at HEAD are left out
+     */
+    private async getHeadIds(paths: string[]): Promise<Map<string, string>> {
+        const ids = new Map<string, string>();
+        if (!this.git || paths.length === 0) {
+            return ids;
+        }
+
+        try {
+            const output = await this.git.raw(['ls-tree', '-z', 'HEAD', '--', ...paths]);
+            for (const entry of output.split('\0')) {
+                const match = entry.match(/^\d+ (?:blob|commit) ([0-9a-f]+)\t(.+)$/);
+                if (match) {
+                    ids.set(match[2], match[1]);
+                }
+            }
+        } catch {
+            // No HEAD yet: nothing is tracked
+        }
+        return ids;
+    }
+
+    /**
+     * Compare the HEAD content recorded in each latest snapshot with the current HEAD
+     */
+    private async updateStaleSnapshots(): Promise<void> {
+        if (!this.git) {
+            return;
+        }
+
+        // Automatic changelists record earlier content; lagging behind HEAD is expected there
+        const snapshots = this.state.changelists
+            .filter(cl => !cl.isDefault && !cl.automatic && !cl.archivedAt)
+            .flatMap(cl => cl.shelvedFiles.map(shelvedFile => ({ changelistId: cl.id, shelvedFile })));
+        const headBlobs = await this.getHeadIds([...new Set(snapshots.map(s => this.getBasePath(s.shelvedFile)))]);
+
+        const stale = new Set<string>();
+        for (const { changelistId, shelvedFile } of snapshots) {
+            // A submodule snapshot records the gitlink SHA itself rather than blob content
+            const recorded = shelvedFile.kind === 'submodule'
+                ? (await this.getHeadBytes(shelvedFile))?.toString()
+                : shelvedFile.headHash ? await this.getGitBlobId(shelvedFile.headHash) : undefined;
+            if (recorded !== headBlobs.get(this.getBasePath(shelvedFile))) {
+                stale.add(this.getStaleKey(changelistId, shelvedFile));
+            }
+        }
+
+        const changed = stale.size !== this.staleSnapshots.size || [...stale].some(key => !this.staleSnapshots.has(key));
+        this.staleSnapshots = stale;
+        if (changed) {
+            this._onDidChangeChangelists.fire();
+        }
+    }
+
+    /**
+     * Git blob id of stored content (the store id itself for the git ref backend)
+     */
+    private async getGitBlobId(id: string): Promise<string | undefined> {
+        if (this.store instanceof GitObjectStore) {
+            return id;
+        }
+
+        if (!this.gitBlobIds.has(id)) {
+            const content = await this.store.get(id);
+            if (content === undefined) {
+                return undefined;
+            }
+            this.gitBlobIds.set(id, crypto.createHash('sha1')
+                .update(`blob ${content.length}\0`)
+                .update(content)
+                .digest('hex'));
+        }
+        return this.gitBlobIds.get(id);
+    }
+
+    /**
+     * Carry a stale snapshot's changes over to the current HEAD: three-way merge
+     * (base = HEAD content at shelve time, ours = current HEAD, theirs = snapshot).
+     * The rebased snapshot replaces the latest one, which is kept as a revision.
+     * Conflicting regions are stored with conflict markers; returns their number.
+     */
+    public async rebaseSnapshot(changelistId: string, relativePath: string): Promise<number> {
+        const changelist = this.getChangelist(changelistId);
+        if (!changelist) {
+            throw new Error(`Changelist not found: ${changelistId}`);
+        }
+
+        const shelvedFile = this.findSnapshot(changelist, relativePath) as ShelvedFile | undefined;
+        if (!shelvedFile) {
+            throw new Error(`File not found in changelist: ${relativePath}`);
+        }
+        if (shelvedFile.isBinary) {
+            throw new Error('Binary snapshots cannot be rebased');
+        }
+        if (shelvedFile.kind) {
+            throw new Error('Symlink and submodule snapshots cannot be rebased');
+        }
+
+        const oldHead = await this.getHeadBytes(shelvedFile);
+        const newHead = await this.getCommittedBytes(this.getBasePath(shelvedFile));
+        const upToDate = oldHead === undefined
+            ? newHead === undefined
+            : newHead !== undefined && oldHead.equals(newHead);
+        if (upToDate) {
+            throw new Error('Snapshot is already based on HEAD');
+        }
+        if (newHead && isBinaryContent(newHead)) {
+            throw new Error('The file is binary at HEAD and cannot be merged');
+        }
+
+        const content = await this.getSnapshotBytes(shelvedFile);
+        let rebased: Buffer | undefined;
+        let conflicts = 0;
+        let eol = shelvedFile.eol;
+
+        if (content !== undefined) {
+            const encoding = shelvedFile.encoding ?? detectEncoding(content);
+            const merge = mergeLines(
+                splitLines(oldHead ? decodeText(oldHead) : ''),
+                splitLines(newHead ? decodeText(newHead) : ''),
+                splitLines(decodeText(content, encoding)),
+                { ours: 'HEAD', theirs: `Snapshot (${changelist.label})` },
+                shelvedFile.eol === 'crlf' ? '\r\n' : '\n'
+            );
+            rebased = encodeText(merge.lines.join(''), encoding);
+            conflicts = merge.conflicts;
+            eol = detectLineEnding(merge.lines.join(''));
+        }
+
+        const rebasedFile: ShelvedFile = {
+            ...this.toRevision(shelvedFile),
+            contentHash: rebased !== undefined ? await this.store.put(rebased) : undefined,
+            headHash: newHead !== undefined ? await this.store.put(newHead) : undefined,
+            eol,
+            shelvedAt: Date.now()
+        };
+        if (newHead !== undefined && (rebasedFile.status === 'untracked' || rebasedFile.status === 'added')) {
+            rebasedFile.status = 'modified';
+        }
+
+        await this.recordSnapshot(changelist, rebasedFile, rebased);
+        this.staleSnapshots.delete(this.getStaleKey(changelistId, shelvedFile));
+
+        log(`Rebased snapshot ${relativePath} in ${changelist.label} onto HEAD (${conflicts} conflict(s))`);
+        return conflicts;
+    }
+
+    // ========== Remote Sync ==========
+
+    /**
+     * The git ref backend, which publishing and fetching operate on
+     */
+    private requireGitObjectStore(): GitObjectStore {
+        if (!(this.store instanceof GitObjectStore)) {
+            throw new Error('Publishing and fetching changelists requires the "gitRefs" snapshot storage');
+        }
+        return this.store;
+    }
+
+    /**
+     * Push a changelist's ref to a remote
+     */
+    public async publishChangelist(changelistId: string, remote: string): Promise<void> {
+        const store = this.requireGitObjectStore();
+        const changelist = this.getChangelist(changelistId);
+        if (!changelist) {
+            throw new Error(`Changelist ${changelistId} not found`);
+        }
+        if (changelist.isDefault) {
+            throw new Error('Cannot publish the default changelist');
+        }
+
+        // Make sure the ref reflects the current state before pushing it
+        await store.sync(this.state.changelists);
+        await store.push(remote, [changelist.id]);
+        log(`Published changelist "${changelist.label}" to ${remote}`);
+    }
+
+    /**
+     * Fetch the changelists published on a remote and merge them into state.
+     * Unknown changelists are added; for known ones, snapshots missing locally are
+     * added and differing snapshots of the same path are kept as history revisions.
+     * Returns the number of changelists added or updated.
+     */
+    public async fetchChangelists(remote: string): Promise<number> {
+        const store = this.requireGitObjectStore();
+        const fetched = await store.fetch(remote);
+        let changed = 0;
+
+        for (const remoteChangelist of fetched) {
+            if (remoteChangelist.isDefault) {
+                continue;
+            }
+
+            const shelvedFiles = remoteChangelist.shelvedFiles.map(sf => ({ ...sf, repoPath: this.repository.path }));
+            const local = this.getChangelist(remoteChangelist.id);
+
+            if (!local) {
+                this.state.changelists.push({
+                    ...remoteChangelist,
+                    isActive: false,
+                    repoPath: this.repository.path,
+                    shelvedFiles
+                });
+                changed++;
+                continue;
+            }
+
+            let updated = false;
+            for (const incoming of shelvedFiles) {
+                const index = local.shelvedFiles.findIndex(sf => sf.relativePath === incoming.relativePath);
+                if (index === -1) {
+                    local.shelvedFiles.push(incoming);
+                    updated = true;
+                    continue;
+                }
+
+                const combined = this.combineSnapshots(local.shelvedFiles[index], incoming);
+                if (combined) {
+                    local.shelvedFiles[index] = combined;
+                    updated = true;
+                }
+            }
+            if (updated) {
+                changed++;
+            }
+        }
+
+        if (changed > 0) {
+            await this.saveState();
+            this._onDidChangeChangelists.fire();
+        }
+
+        log(`Fetched ${fetched.length} changelist(s) from ${remote}, ${changed} added or updated`);
+        return changed;
+    }
+
+    /**
+     * Combine two snapshot histories of the same path into one, ordered by shelvedAt.
+     * The newest snapshot becomes the latest, the rest become history.
+     * Returns undefined when the incoming side holds nothing new.
+     */
+    private combineSnapshots(local: ShelvedFile, incoming: ShelvedFile): ShelvedFile | undefined {
+        const key = (sf: ShelvedFileRevision) => `${sf.shelvedAt}:${sf.contentHash}:${sf.headHash}`;
+        const all = new Map<string, ShelvedFileRevision>();
+
+        for (const snapshot of [local, ...(local.history || [])]) {
+            all.set(key(snapshot), this.toRevision(snapshot));
+        }
+        const knownCount = all.size;
+        for (const snapshot of [incoming, ...(incoming.history || [])]) {
+            if (!all.has(key(snapshot))) {
+                all.set(key(snapshot), this.toRevision(snapshot));
+            }
+        }
+        if (all.size === knownCount) {
+            return undefined;
+        }
+
+        const ordered = [...all.values()].sort((a, b) => a.shelvedAt - b.shelvedAt);
+        const latest: ShelvedFile = { ...ordered[ordered.length - 1] };
+        const history = ordered.slice(0, -1);
+        if (history.length > 0) {
+            latest.history = history;
+        }
+        return latest;
+    }
+
+    // ========== Export/Import ==========
+
+    /**
+     * Export changelists with snapshot content inlined, so the file is self-contained
+     */
+    public async exportChangelists(): Promise<ChangelistExport> {
+        const changelists: ChangelistExport['changelists'] = [];
+
+        for (const cl of this.getChangelists()) {
+            if (cl.isDefault || cl.shelvedFiles.length === 0) {
+                continue;
+            }
+
+            const shelvedFiles: ShelvedFile[] = [];
+            for (const shelvedFile of cl.shelvedFiles) {
+                shelvedFiles.push(await this.exportShelvedFile(shelvedFile));
+            }
+            changelists.push({ label: cl.label, shelvedFiles });
+        }
+
+        return {
+            version: 2,
+            changelists,
+            exportedAt: new Date().toISOString()
+        };
+    }
+
+    /**
+     * Copy of a shelved file and its revisions with blob store content inlined
+     */
+    private async exportShelvedFile(shelvedFile: ShelvedFile): Promise<ShelvedFile> {
+        const exported = await this.externalizeContent(shelvedFile);
+        if (shelvedFile.history) {
+            exported.history = [];
+            for (const revision of shelvedFile.history) {
+                exported.history.push(await this.externalizeContent(revision));
+            }
+        }
+        return exported;
+    }
+
+    /**
+     * Copy of a shelved file with blob store content inlined (base64 for binaries)
+     */
+    private async externalizeContent(shelvedFile: ShelvedFile | ShelvedFileRevision): Promise<ShelvedFile> {
+        const encoding = this.getInlineEncoding(shelvedFile);
+        const exported: ShelvedFile = {
+            ...shelvedFile,
+            originalContent: (await this.getSnapshotBytes(shelvedFile))?.toString(encoding),
+            headContent: (await this.getHeadBytes(shelvedFile))?.toString(encoding)
+        };
+        delete exported.contentHash;
+        delete exported.headHash;
+        delete exported.history;
+        return exported;
+    }
+
+    public async importChangelists(data: ChangelistExport): Promise<number> {
+        if (!data.changelists || !Array.isArray(data.changelists)) {
+            throw new Error('Invalid import data');
+        }
+
+        let imported = 0;
+
+        for (const item of data.changelists) {
+            if (item.label && Array.isArray(item.shelvedFiles)) {
+                const changelist = await this.createChangelist(item.label);
+                for (const shelvedFile of item.shelvedFiles) {
+                    await this.internalizeContent(shelvedFile);
+                    for (const revision of shelvedFile.history || []) {
+                        await this.internalizeContent(revision);
+                    }
+                }
                 changelist.shelvedFiles = item.shelvedFiles;
                 imported++;
             }
@@ -902,6 +3685,7 @@ export class ChangelistService implements vscode.Disposable {
     public dispose(): void {
         this._onDidChangeChangelists.dispose();
         this._onDidChangeFiles.dispose();
+        this._onDidChangeJournal.dispose();
         this.disposables.forEach(d => d.dispose());
     }
 }
@@ -1,13 +1,40 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { ChangelistService } from './ChangelistService';
-import { Changelist, ChangedFile, ShelvedFile, STATUS_DECORATIONS, GitRepository } from './types';
-import { getAbsolutePathFromRepo } from './utils';
+import { AutomaticChangelist, Changelist, ChangelistCommit, ChangedFile, EntryKind, ShelvedFile, STATUS_DECORATIONS, GitRepository, TextEncoding } from './types';
+import { getAbsolutePathFromRepo, formatRenamedPath } from './utils';
+
+/**
+ * Display names of snapshot text encodings
+ */
+const ENCODING_LABELS: Record<TextEncoding, string> = {
+    utf8: 'UTF-8',
+    utf8bom: 'UTF-8 with BOM',
+    utf16le: 'UTF-16 LE',
+    utf16be: 'UTF-16 BE',
+    latin1: 'Latin-1'
+};
+
+/**
+ * Icons and tooltip labels of entries that are not regular files
+ */
+const ENTRY_KINDS: Partial<Record<EntryKind, { icon: string; label: string }>> = {
+    symlink: { icon: 'file-symlink-file', label: 'Symbolic link' },
+    submodule: { icon: 'file-submodule', label: 'Submodule' }
+};
+
+/**
+ * Icons and tooltip notes of changelists the service fills automatically
+ */
+const AUTOMATIC_CHANGELISTS: Record<AutomaticChangelist, { icon: string; description: string }> = {
+    localHistory: { icon: 'history', description: 'Snapshots taken automatically when files are saved' },
+    recovery: { icon: 'shield', description: 'Working content saved automatically before a revert or restore overwrote it' }
+};
 
 /**
  * Tree item types
  */
-type TreeItemType = 'repository' | 'working-header' | 'changelist' | 'working-file' | 'shelved-file' | 'no-repos';
+type TreeItemType = 'repository' | 'working-header' | 'changelist' | 'archive-header' | 'working-file' | 'shelved-file' | 'shelved-revision' | 'changelist-commit' | 'no-repos';
 
 /**
  * Custom tree item for changelists view
@@ -20,11 +47,12 @@ export class ChangelistTreeItem extends vscode.TreeItem {
         public readonly file?: ChangedFile,
         public readonly shelvedFile?: ShelvedFile,
         public readonly changelistId?: string,
-        public readonly repoPath?: string
+        public readonly repoPath?: string,
+        public readonly commit?: ChangelistCommit
     ) {
         super(
-            ChangelistTreeItem.getLabel(itemType, repository, changelist, file, shelvedFile),
-            ChangelistTreeItem.getCollapsibleState(itemType)
+            ChangelistTreeItem.getLabel(itemType, repository, changelist, file, shelvedFile, commit),
+            ChangelistTreeItem.getCollapsibleState(itemType, shelvedFile)
         );
 
         this.setupItem();
@@ -35,7 +63,8 @@ export class ChangelistTreeItem extends vscode.TreeItem {
         repository?: GitRepository,
         changelist?: Changelist,
         file?: ChangedFile,
-        shelvedFile?: ShelvedFile
+        shelvedFile?: ShelvedFile,
+        commit?: ChangelistCommit
     ): string {
         switch (itemType) {
             case 'repository':
@@ -44,19 +73,28 @@ export class ChangelistTreeItem extends vscode.TreeItem {
                 return 'Working Changes';
             case 'changelist':
                 return changelist!.label;
+            case 'archive-header':
+                return 'Archive';
             case 'working-file':
                 return path.basename(file!.relativePath);
             case 'shelved-file':
                 return path.basename(shelvedFile!.relativePath);
+            case 'shelved-revision':
+                return new Date(shelvedFile!.shelvedAt).toLocaleString();
+            case 'changelist-commit':
+                return commit!.subject || commit!.sha.slice(0, 7);
             case 'no-repos':
                 return 'No Git Repository';
         }
     }
 
-    private static getCollapsibleState(itemType: TreeItemType): vscode.TreeItemCollapsibleState {
+    private static getCollapsibleState(itemType: TreeItemType, shelvedFile?: ShelvedFile): vscode.TreeItemCollapsibleState {
         if (itemType === 'repository' || itemType === 'working-header' || itemType === 'changelist') {
             return vscode.TreeItemCollapsibleState.Expanded;
         }
+        if (itemType === 'archive-header' || (itemType === 'shelved-file' && shelvedFile?.history?.length)) {
+            return vscode.TreeItemCollapsibleState.Collapsed;
+        }
         return vscode.TreeItemCollapsibleState.None;
     }
 
@@ -71,12 +109,21 @@ export class ChangelistTreeItem extends vscode.TreeItem {
             case 'changelist':
                 this.setupChangelistItem();
                 break;
+            case 'archive-header':
+                this.setupArchiveHeader();
+                break;
             case 'working-file':
                 this.setupWorkingFileItem();
                 break;
             case 'shelved-file':
                 this.setupShelvedFileItem();
                 break;
+            case 'shelved-revision':
+                this.setupShelvedRevisionItem();
+                break;
+            case 'changelist-commit':
+                this.setupCommitItem();
+                break;
             case 'no-repos':
                 this.setupNoReposItem();
                 break;
@@ -107,22 +154,94 @@ export class ChangelistTreeItem extends vscode.TreeItem {
         this.tooltip = 'Current uncommitted changes in working directory';
     }
 
+    private setupArchiveHeader(): void {
+        this.contextValue = 'archive-header';
+        this.iconPath = new vscode.ThemeIcon('archive');
+        this.tooltip = 'Committed and archived changelists with their snapshots';
+    }
+
     private setupChangelistItem(): void {
         const changelist = this.changelist!;
-        this.contextValue = changelist.isDefault ? 'changelist-default' : 'changelist';
+        if (changelist.archivedAt) {
+            this.setupArchivedChangelistItem();
+            return;
+        }
+
+        this.contextValue = changelist.isDefault ? 'changelist-default'
+            : changelist.automatic ? 'changelist-automatic' : 'changelist';
         this.iconPath = changelist.isActive
             ? new vscode.ThemeIcon('star-full', new vscode.ThemeColor('charts.yellow'))
-            : new vscode.ThemeIcon('archive');
+            : new vscode.ThemeIcon(changelist.automatic ? AUTOMATIC_CHANGELISTS[changelist.automatic].icon : 'archive');
 
         this.tooltip = new vscode.MarkdownString();
         this.tooltip.appendMarkdown(`**${changelist.label}**\n\n`);
+        if (changelist.description) {
+            this.tooltip.appendText(changelist.description);
+            this.tooltip.appendMarkdown('\n\n');
+        }
         this.tooltip.appendMarkdown(`Shelved files: ${changelist.shelvedFiles.length}\n\n`);
         if (changelist.isActive) {
             this.tooltip.appendMarkdown('★ _Active_\n\n');
         }
+        if (changelist.automatic) {
+            this.tooltip.appendMarkdown(`_${AUTOMATIC_CHANGELISTS[changelist.automatic].description}_\n\n`);
+        }
+        if (changelist.excludeFromCommit) {
+            this.tooltip.appendMarkdown('⊘ _Excluded from commit: its working files are left out of commits_\n\n');
+        }
+        this.appendLastCommit(changelist);
         this.tooltip.appendMarkdown('_Right-click for options_');
 
-        this.description = `[Shelved] (${changelist.shelvedFiles.length})`;
+        this.description = `${changelist.excludeFromCommit ? '⊘ ' : ''}[Shelved] (${changelist.shelvedFiles.length})`;
+    }
+
+    private setupArchivedChangelistItem(): void {
+        const changelist = this.changelist!;
+        const archivedAt = new Date(changelist.archivedAt!);
+        this.contextValue = 'changelist-archived';
+        this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        this.iconPath = new vscode.ThemeIcon('package');
+
+        this.tooltip = new vscode.MarkdownString();
+        this.tooltip.appendMarkdown(`**${changelist.label}**\n\n`);
+        if (changelist.description) {
+            this.tooltip.appendText(changelist.description);
+            this.tooltip.appendMarkdown('\n\n');
+        }
+        this.tooltip.appendMarkdown(`Shelved files: ${changelist.shelvedFiles.length}\n\n`);
+        this.appendLastCommit(changelist);
+        this.tooltip.appendMarkdown(`_Archived ${archivedAt.toLocaleString()}. Restore it from the archive to change or commit it_`);
+
+        this.description = `(${changelist.shelvedFiles.length}) • ${archivedAt.toLocaleDateString()}`;
+    }
+
+    private appendLastCommit(changelist: Changelist): void {
+        const last = changelist.commits?.[changelist.commits.length - 1];
+        if (last && this.tooltip instanceof vscode.MarkdownString) {
+            this.tooltip.appendMarkdown(`Commits: ${changelist.commits!.length}, last \`${last.sha.slice(0, 7)}\` `);
+            this.tooltip.appendText(last.subject);
+            this.tooltip.appendMarkdown('\n\n');
+        }
+    }
+
+    private setupCommitItem(): void {
+        const commit = this.commit!;
+        const date = new Date(commit.committedAt);
+        this.contextValue = 'changelist-commit';
+        this.iconPath = new vscode.ThemeIcon('git-commit');
+        this.description = [commit.sha.slice(0, 7), commit.branch, date.toLocaleDateString()].filter(Boolean).join(' • ');
+
+        this.tooltip = new vscode.MarkdownString();
+        this.tooltip.appendText(commit.subject);
+        this.tooltip.appendMarkdown(`\n\n\`${commit.sha}\`\n\n`);
+        this.tooltip.appendText(`${commit.author}, ${date.toLocaleString()}${commit.branch ? ` on ${commit.branch}` : ''}`);
+        this.tooltip.appendMarkdown('\n\n_Click to open the commit\'s changes_');
+
+        this.command = {
+            command: 'smartChangelists.openCommit',
+            title: 'Open Commit Changes',
+            arguments: [{ commit, changelistId: this.changelistId, repoPath: this.repoPath }]
+        };
     }
 
     private setupWorkingFileItem(): void {
@@ -132,15 +251,24 @@ export class ChangelistTreeItem extends vscode.TreeItem {
         this.contextValue = 'working-file';
 
         const dirPath = path.dirname(file.relativePath);
-        this.description = dirPath && dirPath !== '.' ? dirPath : '';
+        this.description = file.originalPath
+            ? formatRenamedPath(file.relativePath, file.originalPath)
+            : dirPath && dirPath !== '.' ? dirPath : '';
 
         this.tooltip = new vscode.MarkdownString();
-        this.tooltip.appendMarkdown(`**${file.relativePath}**\n\n`);
+        this.tooltip.appendMarkdown(`**${formatRenamedPath(file.relativePath, file.originalPath)}**\n\n`);
         this.tooltip.appendMarkdown(`Status: ${decoration.tooltip}\n\n`);
+        const entryKind = file.kind && ENTRY_KINDS[file.kind];
+        if (entryKind) {
+            this.tooltip.appendMarkdown(`${entryKind.label}\n\n`);
+        }
         this.tooltip.appendMarkdown('_Click to view diff, right-click to save snapshot_');
 
         // Use resourceUri for proper file type icons from VS Code
         this.resourceUri = vscode.Uri.file(file.absolutePath);
+        if (entryKind) {
+            this.iconPath = new vscode.ThemeIcon(entryKind.icon);
+        }
 
         this.command = {
             command: 'smartChangelists.openDiff',
@@ -157,12 +285,39 @@ export class ChangelistTreeItem extends vscode.TreeItem {
 
         const dirPath = path.dirname(shelvedFile.relativePath);
         const dateStr = new Date(shelvedFile.shelvedAt).toLocaleString();
-        this.description = dirPath && dirPath !== '.' ? dirPath : '';
+        const location = shelvedFile.originalPath
+            ? formatRenamedPath(shelvedFile.relativePath, shelvedFile.originalPath)
+            : dirPath && dirPath !== '.' ? dirPath : '';
+        this.description = [location, shelvedFile.isPartial ? '(partial)' : '']
+            .filter(Boolean)
+            .join(' ');
 
         this.tooltip = new vscode.MarkdownString();
-        this.tooltip.appendMarkdown(`**${shelvedFile.relativePath}**\n\n`);
+        this.tooltip.appendMarkdown(`**${formatRenamedPath(shelvedFile.relativePath, shelvedFile.originalPath)}**\n\n`);
         this.tooltip.appendMarkdown(`Saved: ${dateStr}\n\n`);
         this.tooltip.appendMarkdown(`Original status: ${decoration.tooltip}\n\n`);
+        const entryKind = shelvedFile.kind && ENTRY_KINDS[shelvedFile.kind];
+        if (entryKind) {
+            this.tooltip.appendMarkdown(`${entryKind.label}: restoring recreates it instead of writing a file\n\n`);
+        }
+        if (shelvedFile.isBinary) {
+            this.tooltip.appendMarkdown('Binary file\n\n');
+        }
+        if (shelvedFile.isPartial) {
+            this.tooltip.appendMarkdown('Partial snapshot: restoring re-applies only the shelved hunks\n\n');
+        }
+        if (shelvedFile.encoding && shelvedFile.encoding !== 'utf8') {
+            this.tooltip.appendMarkdown(`Encoding: ${ENCODING_LABELS[shelvedFile.encoding]}\n\n`);
+        }
+        if (shelvedFile.eol && shelvedFile.eol !== 'lf') {
+            this.tooltip.appendMarkdown(`Line endings: ${shelvedFile.eol.toUpperCase()}\n\n`);
+        }
+        if (shelvedFile.mode !== undefined && (shelvedFile.mode & 0o111) !== 0) {
+            this.tooltip.appendMarkdown(`Executable (mode ${shelvedFile.mode.toString(8)})\n\n`);
+        }
+        if (shelvedFile.history?.length) {
+            this.tooltip.appendMarkdown(`Older revisions: ${shelvedFile.history.length}\n\n`);
+        }
         this.tooltip.appendMarkdown('_Click to preview diff, right-click for options_');
 
         // Use resourceUri for proper file type icons from VS Code
@@ -170,6 +325,9 @@ export class ChangelistTreeItem extends vscode.TreeItem {
         if (repoPath) {
             this.resourceUri = vscode.Uri.file(getAbsolutePathFromRepo(shelvedFile.relativePath, repoPath));
         }
+        if (entryKind) {
+            this.iconPath = new vscode.ThemeIcon(entryKind.icon);
+        }
 
         this.command = {
             command: 'smartChangelists.previewShelved',
@@ -178,6 +336,44 @@ export class ChangelistTreeItem extends vscode.TreeItem {
         };
     }
 
+    /**
+     * Show how many changed working files belong to this changelist
+     */
+    public setWorkingCount(count: number): void {
+        if (count > 0) {
+            this.description = `${count} changed • ${this.description}`;
+        }
+    }
+
+    /**
+     * Flag a snapshot taken against an older HEAD than the current one
+     */
+    public markStale(): void {
+        this.description = [this.description, '(stale)'].filter(Boolean).join(' ');
+        if (this.tooltip instanceof vscode.MarkdownString) {
+            this.tooltip.appendMarkdown('\n\n**Stale:** HEAD changed since this snapshot was taken. ' +
+                'Use "Rebase Snapshot onto HEAD" to carry its changes over to the current HEAD.');
+        }
+    }
+
+    private setupShelvedRevisionItem(): void {
+        const revision = this.shelvedFile!;
+
+        this.contextValue = 'shelved-revision';
+        this.iconPath = new vscode.ThemeIcon('history');
+
+        this.tooltip = new vscode.MarkdownString();
+        this.tooltip.appendMarkdown(`**${revision.relativePath}**\n\n`);
+        this.tooltip.appendMarkdown(`Older revision saved: ${new Date(revision.shelvedAt).toLocaleString()}\n\n`);
+        this.tooltip.appendMarkdown('_Click to preview diff, right-click for options_');
+
+        this.command = {
+            command: 'smartChangelists.previewShelved',
+            title: 'Preview Shelved',
+            arguments: [{ shelvedFile: revision, changelistId: this.changelistId, repoPath: this.repoPath, itemType: this.itemType }]
+        };
+    }
+
     private setupNoReposItem(): void {
         this.contextValue = 'no-repos';
         this.iconPath = new vscode.ThemeIcon('warning');
@@ -285,12 +481,26 @@ export class ChangelistTreeProvider implements
         if (element.itemType === 'working-header' && element.repoPath) {
             const service = this.getService(element.repoPath);
             if (service) {
-                return Promise.resolve(this.getWorkingFileItems(service));
+                return Promise.resolve(this.getWorkingFileItems(service, service.getDefaultChangelist().id));
             }
         }
 
+        if (element.itemType === 'archive-header' && element.repoPath) {
+            const service = this.getService(element.repoPath);
+            return Promise.resolve(service ? this.getArchivedChangelistItems(service) : []);
+        }
+
         if (element.itemType === 'changelist' && element.changelist && element.repoPath) {
-            return Promise.resolve(this.getShelvedFileItems(element.changelist, element.repoPath));
+            const service = this.getService(element.repoPath);
+            return Promise.resolve([
+                ...(service ? this.getWorkingFileItems(service, element.changelist.id) : []),
+                ...this.getShelvedFileItems(element.changelist, element.repoPath),
+                ...this.getCommitItems(element.changelist, element.repoPath)
+            ]);
+        }
+
+        if (element.itemType === 'shelved-file' && element.shelvedFile && element.changelistId && element.repoPath) {
+            return Promise.resolve(this.getShelvedRevisionItems(element.shelvedFile, element.changelistId, element.repoPath));
         }
 
         return Promise.resolve([]);
@@ -303,6 +513,18 @@ export class ChangelistTreeProvider implements
         if (!service) return undefined;
 
         if (element.itemType === 'working-file') {
+            const changelist = service.getChangelistForFile(element.file!.relativePath);
+            if (!changelist.isDefault) {
+                return new ChangelistTreeItem(
+                    'changelist',
+                    undefined,
+                    changelist,
+                    undefined,
+                    undefined,
+                    undefined,
+                    element.repoPath
+                );
+            }
             if (this.hasMultipleRepositories()) {
                 return new ChangelistTreeItem(
                     'working-header',
@@ -317,7 +539,7 @@ export class ChangelistTreeProvider implements
             return new ChangelistTreeItem('working-header');
         }
 
-        if (element.itemType === 'shelved-file' && element.changelistId) {
+        if ((element.itemType === 'shelved-file' || element.itemType === 'changelist-commit') && element.changelistId) {
             const changelist = service.getChangelist(element.changelistId);
             if (changelist) {
                 return new ChangelistTreeItem(
@@ -332,7 +554,35 @@ export class ChangelistTreeProvider implements
             }
         }
 
-        if (element.itemType === 'working-header' || element.itemType === 'changelist') {
+        if (element.itemType === 'shelved-revision' && element.changelistId && element.shelvedFile) {
+            const shelvedFile = service.getShelvedFilesForChangelist(element.changelistId)
+                .find(f => f.relativePath === element.shelvedFile!.relativePath);
+            if (shelvedFile) {
+                return new ChangelistTreeItem(
+                    'shelved-file',
+                    undefined,
+                    undefined,
+                    undefined,
+                    shelvedFile,
+                    element.changelistId,
+                    element.repoPath
+                );
+            }
+        }
+
+        if (element.itemType === 'changelist' && element.changelist?.archivedAt) {
+            return new ChangelistTreeItem(
+                'archive-header',
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                element.repoPath
+            );
+        }
+
+        if (element.itemType === 'working-header' || element.itemType === 'changelist' || element.itemType === 'archive-header') {
             if (this.hasMultipleRepositories()) {
                 return new ChangelistTreeItem(
                     'repository',
@@ -405,7 +655,7 @@ export class ChangelistTreeProvider implements
         // Shelved changelists (non-default)
         const changelists = service.getChangelists().filter(cl => !cl.isDefault);
         for (const cl of changelists) {
-            items.push(new ChangelistTreeItem(
+            const item = new ChangelistTreeItem(
                 'changelist',
                 undefined,
                 cl,
@@ -413,17 +663,52 @@ export class ChangelistTreeProvider implements
                 undefined,
                 undefined,
                 repoPath
-            ));
+            );
+            item.setWorkingCount(service.getWorkingFilesForChangelist(cl.id).length);
+            items.push(item);
+        }
+
+        // Committed and retired changelists, collapsed
+        const archivedCount = service.getArchivedChangelists().length;
+        if (archivedCount > 0) {
+            const item = new ChangelistTreeItem(
+                'archive-header',
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                repoPath
+            );
+            item.description = `(${archivedCount})`;
+            items.push(item);
         }
 
         return items;
     }
 
     /**
-     * Get working file items for a service
+     * Get the items of a repository's archived changelists
+     */
+    private getArchivedChangelistItems(service: ChangelistService): ChangelistTreeItem[] {
+        return service.getArchivedChangelists().map(cl =>
+            new ChangelistTreeItem(
+                'changelist',
+                undefined,
+                cl,
+                undefined,
+                undefined,
+                undefined,
+                service.repository.path
+            )
+        );
+    }
+
+    /**
+     * Get the items of the working files that belong to a changelist
      */
-    private getWorkingFileItems(service: ChangelistService): ChangelistTreeItem[] {
-        const files = service.getChangedFiles();
+    private getWorkingFileItems(service: ChangelistService, changelistId: string): ChangelistTreeItem[] {
+        const files = service.getWorkingFilesForChangelist(changelistId);
         return files.map(file =>
             new ChangelistTreeItem(
                 'working-file',
@@ -437,12 +722,32 @@ export class ChangelistTreeProvider implements
         );
     }
 
+    /**
+     * Get the items of the commits made from a changelist, newest first
+     */
+    private getCommitItems(changelist: Changelist, repoPath: string): ChangelistTreeItem[] {
+        return (changelist.commits ?? [])
+            .map(commit => new ChangelistTreeItem(
+                'changelist-commit',
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                changelist.id,
+                repoPath,
+                commit
+            ))
+            .reverse();
+    }
+
     /**
      * Get shelved file items for a changelist
      */
     private getShelvedFileItems(changelist: Changelist, repoPath: string): ChangelistTreeItem[] {
-        return changelist.shelvedFiles.map(shelvedFile =>
-            new ChangelistTreeItem(
+        const service = this.getService(repoPath);
+
+        return changelist.shelvedFiles.map(shelvedFile => {
+            const item = new ChangelistTreeItem(
                 'shelved-file',
                 undefined,
                 undefined,
@@ -450,8 +755,34 @@ export class ChangelistTreeProvider implements
                 shelvedFile,
                 changelist.id,
                 repoPath
-            )
-        );
+            );
+            if (service?.isSnapshotStale(changelist.id, shelvedFile)) {
+                item.markStale();
+            }
+            return item;
+        });
+    }
+
+    /**
+     * Get older revision items for a shelved file (newest first)
+     */
+    private getShelvedRevisionItems(shelvedFile: ShelvedFile, changelistId: string, repoPath: string): ChangelistTreeItem[] {
+        const history = shelvedFile.history || [];
+        return history
+            .map((revision, index) => {
+                const item = new ChangelistTreeItem(
+                    'shelved-revision',
+                    undefined,
+                    undefined,
+                    undefined,
+                    revision,
+                    changelistId,
+                    repoPath
+                );
+                item.description = `rev ${index + 1}`;
+                return item;
+            })
+            .reverse();
     }
 
     // ========== Drag and Drop Implementation ==========
@@ -461,15 +792,24 @@ export class ChangelistTreeProvider implements
         dataTransfer: vscode.DataTransfer,
         token: vscode.CancellationToken
     ): void | Thenable<void> {
-        // Only allow dragging working files
-        const workingFiles = source.filter(item => item.itemType === 'working-file');
-        if (workingFiles.length === 0) return;
-
-        const dragData = workingFiles.map(item => ({
-            relativePath: item.file!.relativePath,
-            type: 'working-file',
-            repoPath: item.repoPath
-        }));
+        // Working files are shelved on drop, shelved files are moved to the target changelist
+        const dragData = source.flatMap(item => {
+            if (item.itemType === 'working-file') {
+                return [{ relativePath: item.file!.relativePath, type: 'working-file', repoPath: item.repoPath }];
+            }
+            if (item.itemType === 'shelved-file') {
+                return [{
+                    relativePath: item.shelvedFile!.relativePath,
+                    type: 'shelved-file',
+                    repoPath: item.repoPath,
+                    changelistId: item.changelistId
+                }];
+            }
+            return [];
+        });
+        if (dragData.length === 0) {
+            return;
+        }
 
         dataTransfer.set(
             'application/vnd.code.tree.smartChangelistsView',
@@ -482,8 +822,8 @@ export class ChangelistTreeProvider implements
         dataTransfer: vscode.DataTransfer,
         token: vscode.CancellationToken
     ): Promise<void> {
-        // Target must be a changelist (for shelving)
-        if (!target || target.itemType !== 'changelist' || !target.changelist || !target.repoPath) {
+        // Target must be a changelist in use
+        if (!target || target.itemType !== 'changelist' || !target.changelist || target.changelist.archivedAt || !target.repoPath) {
             return;
         }
 
@@ -494,16 +834,34 @@ export class ChangelistTreeProvider implements
         if (!transferItem) return;
 
         try {
-            const dragData: Array<{ relativePath: string; type: string; repoPath?: string }> =
+            const dragData: Array<{ relativePath: string; type: string; repoPath?: string; changelistId?: string }> =
                 JSON.parse(await transferItem.asString());
 
-            // Only shelve files from the same repository
-            const filesToShelve = dragData
+            // Snapshots go through the move command, which resolves collisions with the user
+            const snapshots = dragData
+                .filter(item => item.type === 'shelved-file' && item.changelistId !== target.changelist!.id)
+                .map(item => ({
+                    itemType: 'shelved-file',
+                    shelvedFile: { relativePath: item.relativePath },
+                    changelistId: item.changelistId,
+                    repoPath: item.repoPath
+                }));
+            if (snapshots.length > 0) {
+                await vscode.commands.executeCommand(
+                    'smartChangelists.moveSnapshot',
+                    snapshots[0],
+                    snapshots,
+                    { repoPath: target.repoPath, changelistId: target.changelist.id }
+                );
+            }
+
+            // Working files change changelist without a snapshot; only files from the same repository
+            const filesToMove = dragData
                 .filter(item => item.type === 'working-file' && item.repoPath === target.repoPath)
                 .map(item => item.relativePath);
 
-            if (filesToShelve.length > 0) {
-                await service.shelveFiles(filesToShelve, target.changelist.id);
+            if (filesToMove.length > 0) {
+                await service.moveWorkingFiles(filesToMove, target.changelist.id);
             }
         } catch (error) {
             console.error('Failed to handle drop:', error);
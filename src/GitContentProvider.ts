@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import simpleGit, { SimpleGit } from 'simple-git';
-import { log, getWorkspaceRoot } from './utils';
+import { log, getWorkspaceRoot, decodeText } from './utils';
 
 /**
  * URI scheme for our git content provider
@@ -56,9 +56,9 @@ export class GitContentProvider implements vscode.TextDocumentContentProvider {
 
             log(`Getting content for ${relativePath} at ${ref} from ${gitRepoPath}`);
 
-            // Get file content from git
-            const content = await git.show([`${ref}:${relativePath}`]);
-            return content;
+            // Get file content from git (raw bytes, so non-UTF-8 text decodes correctly)
+            const content = await git.binaryCatFile(['-p', `${ref}:${relativePath}`]);
+            return decodeText(content);
         } catch (error) {
             // File might be new (untracked), return empty content
             log(`Could not get git content: ${error}`, 'warn');
@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SimpleGit } from 'simple-git';
+import { Changelist, SnapshotStore } from './types';
+import { collectContentIds, log } from './utils';
+
+/** Namespace holding one commit per changelist */
+export const CHANGELIST_REF_PREFIX = 'refs/changelists/';
+
+/** Namespace fetched changelists are kept under, one folder per remote */
+export const REMOTE_CHANGELIST_REF_PREFIX = 'refs/remote-changelists/';
+
+/** Ref keeping retained content (e.g. the operation journal's) reachable, outside the changelist namespace */
+const RETAINED_REF = 'refs/changelists-retained';
+
+/** Name of the metadata file at the root of each changelist commit */
+const METADATA_FILE = 'changelist.json';
+
+/** Identity used for the bookkeeping commits (they never end up on a branch) */
+const COMMIT_IDENTITY = ['-c', 'user.name=Smart Changelists', '-c', 'user.email=smart-changelists@localhost'];
+
+/**
+ * Snapshot store backed by the repository's own object database.
+ * Content is written as git blobs. Each changelist is recorded as a commit under
+ * refs/changelists/<id> whose tree holds changelist.json plus every blob it references,
+ * so `git gc` keeps the snapshots and they can be inspected with plain git:
+ *
+ *   git show refs/changelists/<id>:changelist.json
+ */
+export class GitObjectStore implements SnapshotStore {
+    /** What was last written per ref (a changelist's metadata, or the retained ids), to skip unchanged refs */
+    private written: Map<string, string> = new Map();
+
+    constructor(private readonly git: SimpleGit) {}
+
+    public async put(content: string | Buffer): Promise<string> {
+        return this.hashObject(typeof content === 'string' ? Buffer.from(content, 'utf8') : content, 'blob');
+    }
+
+    public async get(id: string): Promise<Buffer | undefined> {
+        try {
+            return await this.git.binaryCatFile(['blob', id]);
+        } catch (error) {
+            log(`Git object not found: ${id} (${error})`, 'warn');
+            return undefined;
+        }
+    }
+
+    /**
+     * Write one ref per changelist and delete refs of changelists that no longer exist.
+     * Retained content is kept reachable from a ref of its own.
+     */
+    public async sync(changelists: Changelist[], retained: Set<string> = new Set()): Promise<void> {
+        const existing = await this.listRefs();
+
+        for (const changelist of changelists) {
+            if (changelist.isDefault) {
+                continue;
+            }
+            await this.writeChangelist(changelist);
+            existing.delete(changelist.id);
+        }
+
+        for (const id of existing.keys()) {
+            await this.git.raw(['update-ref', '-d', `${CHANGELIST_REF_PREFIX}${id}`]);
+            this.written.delete(id);
+            log(`Deleted ref ${CHANGELIST_REF_PREFIX}${id}`);
+        }
+
+        await this.writeRetained(retained);
+    }
+
+    /**
+     * Read the changelists recorded under a ref namespace (refs/changelists/ by default)
+     */
+    public async readChangelists(prefix: string = CHANGELIST_REF_PREFIX): Promise<Changelist[]> {
+        const changelists: Changelist[] = [];
+
+        for (const [id, commit] of await this.listRefs(prefix)) {
+            try {
+                const metadata = await this.git.show([`${commit}:${METADATA_FILE}`]);
+                changelists.push(JSON.parse(metadata) as Changelist);
+            } catch (error) {
+                log(`Skipping unreadable ref ${prefix}${id}: ${error}`, 'warn');
+            }
+        }
+
+        return changelists;
+    }
+
+    /**
+     * Push changelist refs (and the objects they reference) to a remote.
+     * Refs are force-pushed: each sync writes a fresh parentless commit.
+     */
+    public async push(remote: string, ids: string[]): Promise<void> {
+        const refspecs = ids.map(id => `+${CHANGELIST_REF_PREFIX}${id}:${CHANGELIST_REF_PREFIX}${id}`);
+        await this.git.raw(['push', remote, ...refspecs]);
+        log(`Pushed ${ids.length} changelist ref(s) to ${remote}`);
+    }
+
+    /**
+     * Fetch all changelist refs of a remote into refs/remote-changelists/<remote>/
+     * and return the changelists they describe
+     */
+    public async fetch(remote: string): Promise<Changelist[]> {
+        const prefix = `${REMOTE_CHANGELIST_REF_PREFIX}${remote.replace(/[^\w.-]/g, '_')}/`;
+        await this.git.raw(['fetch', '--prune', remote, `+${CHANGELIST_REF_PREFIX}*:${prefix}*`]);
+        log(`Fetched changelist refs from ${remote}`);
+        return this.readChangelists(prefix);
+    }
+
+    /**
+     * Record a changelist as a commit whose tree is:
+     *   changelist.json
+     *   blobs/<id>  (one entry per referenced content id)
+     */
+    private async writeChangelist(changelist: Changelist): Promise<void> {
+        // Machine-local fields are left out so the same changelist hashes the same everywhere
+        const metadata = JSON.stringify({
+            ...changelist,
+            isActive: false,
+            repoPath: undefined,
+            shelvedFiles: changelist.shelvedFiles.map(sf => ({
+                ...sf,
+                repoPath: undefined,
+                history: sf.history?.map(r => ({ ...r, repoPath: undefined }))
+            }))
+        }, null, 2);
+
+        // The metadata lists every content id, so the same metadata means the same tree
+        if (this.written.get(changelist.id) === metadata) {
+            return;
+        }
+
+        const blobEntries = Array.from(collectContentIds([changelist]))
+            .sort()
+            .map(id => this.treeEntry('100644', id, id));
+        const blobsTree = await this.hashObject(Buffer.concat(blobEntries), 'tree');
+        const metadataBlob = await this.hashObject(Buffer.from(metadata, 'utf8'), 'blob');
+
+        // Entries must be sorted by name ("blobs" < "changelist.json")
+        const rootTree = await this.hashObject(Buffer.concat([
+            this.treeEntry('40000', 'blobs', blobsTree),
+            this.treeEntry('100644', METADATA_FILE, metadataBlob)
+        ]), 'tree');
+
+        const commit = (await this.git.raw([
+            ...COMMIT_IDENTITY,
+            'commit-tree', rootTree,
+            '-m', `Changelist: ${changelist.label}`
+        ])).trim();
+        await this.git.raw(['update-ref', `${CHANGELIST_REF_PREFIX}${changelist.id}`, commit]);
+
+        this.written.set(changelist.id, metadata);
+        log(`Wrote ${CHANGELIST_REF_PREFIX}${changelist.id} (${commit.substring(0, 8)})`);
+    }
+
+    /**
+     * Point RETAINED_REF at a commit whose tree holds every retained blob (or delete it when there are none)
+     */
+    private async writeRetained(ids: Set<string>): Promise<void> {
+        const sorted = Array.from(ids).sort();
+        if (this.written.get(RETAINED_REF) === sorted.join(',')) {
+            return;
+        }
+
+        const tree = await this.hashObject(Buffer.concat(sorted.map(id => this.treeEntry('100644', id, id))), 'tree');
+
+        if (ids.size === 0) {
+            await this.git.raw(['update-ref', '-d', RETAINED_REF]);
+        } else {
+            const commit = (await this.git.raw([
+                ...COMMIT_IDENTITY,
+                'commit-tree', tree,
+                '-m', 'Retained changelist content'
+            ])).trim();
+            await this.git.raw(['update-ref', RETAINED_REF, commit]);
+        }
+
+        this.written.set(RETAINED_REF, sorted.join(','));
+    }
+
+    /**
+     * List changelist refs under a namespace as id -> commit
+     */
+    private async listRefs(prefix: string = CHANGELIST_REF_PREFIX): Promise<Map<string, string>> {
+        const output = await this.git.raw(['for-each-ref', '--format=%(refname) %(objectname)', prefix]);
+        const refs = new Map<string, string>();
+
+        for (const line of output.split('\n')) {
+            const [refName, commit] = line.trim().split(' ');
+            if (refName && commit) {
+                refs.set(refName.substring(prefix.length), commit);
+            }
+        }
+
+        return refs;
+    }
+
+    /**
+     * Encode one raw tree entry: "<mode> <name>\0<binary object id>"
+     */
+    private treeEntry(mode: string, name: string, id: string): Buffer {
+        return Buffer.concat([Buffer.from(`${mode} ${name}\0`, 'utf8'), Buffer.from(id, 'hex')]);
+    }
+
+    /**
+     * Write an object to the repository's object database and return its id
+     */
+    private async hashObject(content: Buffer, type: 'blob' | 'tree'): Promise<string> {
+        const tempPath = path.join(os.tmpdir(), `smart-changelists-${process.pid}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`);
+        fs.writeFileSync(tempPath, content);
+
+        try {
+            return (await this.git.raw(['hash-object', '-t', type, '-w', '--no-filters', tempPath])).trim();
+        } finally {
+            fs.unlinkSync(tempPath);
+        }
+    }
+}
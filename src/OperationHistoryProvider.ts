@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { ChangelistService } from './ChangelistService';
+import { JournalEntry } from './types';
+
+/**
+ * Tree item for one journaled operation
+ */
+export class OperationHistoryItem extends vscode.TreeItem {
+    constructor(
+        public readonly entry: JournalEntry,
+        public readonly repoPath: string,
+        public readonly isUndone: boolean,
+        repoName?: string
+    ) {
+        super(entry.label, vscode.TreeItemCollapsibleState.None);
+
+        this.contextValue = isUndone ? 'undone-operation' : 'operation';
+        this.iconPath = new vscode.ThemeIcon(isUndone ? 'discard' : 'history');
+
+        const time = new Date(isUndone ? entry.undoneAt ?? entry.timestamp : entry.timestamp).toLocaleString();
+        this.description = [isUndone ? `undone ${time}` : time, repoName].filter(Boolean).join(' • ');
+
+        this.tooltip = new vscode.MarkdownString();
+        this.tooltip.appendMarkdown(`**${entry.label}**\n\n`);
+        this.tooltip.appendMarkdown(`${new Date(entry.timestamp).toLocaleString()}\n\n`);
+        for (const file of entry.before.files) {
+            this.tooltip.appendMarkdown(`- ${file.relativePath}\n`);
+        }
+        this.tooltip.appendMarkdown(isUndone ? '\n_Undone: Redo brings it back_' : '\n_Undo reverses the most recent operation first_');
+    }
+}
+
+/**
+ * Lists recent destructive changelist operations of all repositories:
+ * undone operations (next to redo) on top, then the ones that can be undone, newest first
+ */
+export class OperationHistoryProvider implements vscode.TreeDataProvider<OperationHistoryItem> {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<OperationHistoryItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    /** Map of repository path to service */
+    private services: Map<string, ChangelistService> = new Map();
+
+    public addService(service: ChangelistService): void {
+        this.services.set(service.repository.path, service);
+        service.onDidChangeJournal(() => this.refresh());
+        this.refresh();
+    }
+
+    public removeService(repoPath: string): void {
+        this.services.delete(repoPath);
+        this.refresh();
+    }
+
+    public refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: OperationHistoryItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: OperationHistoryItem): OperationHistoryItem[] {
+        if (element) {
+            return [];
+        }
+
+        const showRepo = this.services.size > 1;
+        const undone: OperationHistoryItem[] = [];
+        const done: OperationHistoryItem[] = [];
+
+        for (const service of this.services.values()) {
+            const repoName = showRepo ? service.repository.name : undefined;
+            for (const entry of service.getRedoOperations()) {
+                undone.push(new OperationHistoryItem(entry, service.repository.path, true, repoName));
+            }
+            for (const entry of service.getUndoOperations()) {
+                done.push(new OperationHistoryItem(entry, service.repository.path, false, repoName));
+            }
+        }
+
+        undone.sort((a, b) => (b.entry.undoneAt ?? 0) - (a.entry.undoneAt ?? 0));
+        done.sort((a, b) => b.entry.timestamp - a.entry.timestamp);
+        return [...undone, ...done];
+    }
+}
+
+/**
+ * Register the operation history tree view
+ */
+export function registerOperationHistoryView(
+    context: vscode.ExtensionContext,
+    provider: OperationHistoryProvider
+): vscode.TreeView<OperationHistoryItem> {
+    const treeView = vscode.window.createTreeView('smartChangelistsHistory', {
+        treeDataProvider: provider
+    });
+
+    context.subscriptions.push(treeView);
+    return treeView;
+}
@@ -0,0 +1,353 @@
+import { Hunk, MergeResult } from './types';
+
+/** Edits searched from each end before a range counts as rewritten as a whole */
+const MAX_SEARCH_DEPTH = 1000;
+
+/**
+ * Split text into lines, keeping each line's ending so joining them restores the text exactly
+ */
+export function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Compute the hunks that turn base into modified (Myers diff on lines)
+ */
+export function diffLines(base: string[], modified: string[]): Hunk[] {
+    // Common prefix and suffix never take part in a hunk
+    let prefix = 0;
+    while (prefix < base.length && prefix < modified.length && base[prefix] === modified[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < base.length - prefix &&
+        suffix < modified.length - prefix &&
+        base[base.length - 1 - suffix] === modified[modified.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const a = base.slice(prefix, base.length - suffix);
+    const b = modified.slice(prefix, modified.length - suffix);
+    const hunks: Hunk[] = [];
+
+    let ai = 0;
+    let bi = 0;
+    for (const [pa, pb] of [...commonLines(a, b), [a.length, b.length]]) {
+        if (pa > ai || pb > bi) {
+            hunks.push({
+                baseStart: prefix + ai,
+                baseLines: a.slice(ai, pa),
+                newStart: prefix + bi,
+                newLines: b.slice(bi, pb)
+            });
+        }
+        ai = pa + 1;
+        bi = pb + 1;
+    }
+
+    return hunks;
+}
+
+/**
+ * Apply non-overlapping hunks (computed against base) to base
+ */
+export function applyHunks(base: string[], hunks: Hunk[]): string[] {
+    const result: string[] = [];
+    let position = 0;
+
+    for (const hunk of [...hunks].sort(compareHunks)) {
+        if (hunk.baseStart < position) {
+            throw new Error('Overlapping hunks cannot be applied');
+        }
+        result.push(...base.slice(position, hunk.baseStart), ...hunk.newLines);
+        position = hunk.baseStart + hunk.baseLines.length;
+    }
+    result.push(...base.slice(position));
+
+    return result;
+}
+
+/**
+ * Three-way merge of line arrays: apply the changes ours and theirs each made to base.
+ * Regions both sides changed differently are written between conflict markers,
+ * which end with the given line ending.
+ */
+export function mergeLines(
+    base: string[],
+    ours: string[],
+    theirs: string[],
+    labels: { ours: string; theirs: string },
+    eol = '\n'
+): MergeResult {
+    const changes = [
+        ...diffLines(base, ours).map(hunk => ({ hunk, isOurs: true })),
+        ...diffLines(base, theirs).map(hunk => ({ hunk, isOurs: false }))
+    ].sort((x, y) => compareHunks(x.hunk, y.hunk));
+
+    const lines: string[] = [];
+    let conflicts = 0;
+    let position = 0;
+    let i = 0;
+
+    while (i < changes.length) {
+        // Group changes whose base ranges overlap or touch
+        const start = changes[i].hunk.baseStart;
+        let end = baseEnd(changes[i].hunk);
+        let j = i + 1;
+        while (j < changes.length && changes[j].hunk.baseStart <= end) {
+            end = Math.max(end, baseEnd(changes[j].hunk));
+            j++;
+        }
+        const group = changes.slice(i, j);
+
+        // Each side's version of the base region
+        const region = base.slice(start, end);
+        const sideOf = (isOurs: boolean): string[] | undefined => {
+            const hunks = group.filter(c => c.isOurs === isOurs).map(c => ({ ...c.hunk, baseStart: c.hunk.baseStart - start }));
+            return hunks.length > 0 ? applyHunks(region, hunks) : undefined;
+        };
+        const oursSide = sideOf(true);
+        const theirsSide = sideOf(false);
+
+        lines.push(...base.slice(position, start));
+        if (!oursSide || !theirsSide || oursSide.join('') === theirsSide.join('')) {
+            lines.push(...(oursSide || theirsSide || region));
+        } else {
+            conflicts++;
+            lines.push(
+                `<<<<<<< ${labels.ours}${eol}`,
+                ...terminated(oursSide, eol),
+                `=======${eol}`,
+                ...terminated(theirsSide, eol),
+                `>>>>>>> ${labels.theirs}${eol}`
+            );
+        }
+
+        position = end;
+        i = j;
+    }
+    lines.push(...base.slice(position));
+
+    return { lines, conflicts };
+}
+
+/**
+ * Split hunks at a range of lines of the modified text (0-based, inclusive).
+ * Changed lines inside the range go to selected, everything else to remaining.
+ * A hunk crossing the range is cut, pairing removed lines with added lines in order;
+ * a pure deletion is selected when the range touches the lines around it.
+ */
+export function splitHunksAtLines(hunks: Hunk[], startLine: number, endLine: number): { selected: Hunk[]; remaining: Hunk[] } {
+    const selected: Hunk[] = [];
+    const remaining: Hunk[] = [];
+
+    for (const hunk of hunks) {
+        const added = hunk.newLines.length;
+        const removed = hunk.baseLines.length;
+
+        if (added === 0) {
+            const touched = startLine <= hunk.newStart && endLine >= hunk.newStart - 1;
+            (touched ? selected : remaining).push(hunk);
+            continue;
+        }
+
+        const from = Math.min(Math.max(startLine - hunk.newStart, 0), added);
+        const to = Math.min(Math.max(endLine + 1 - hunk.newStart, 0), added);
+        if (from >= to) {
+            remaining.push(hunk);
+            continue;
+        }
+
+        // Removed lines left over past the last added line belong to the end of the hunk
+        const baseIndex = (i: number) => i === added ? removed : Math.min(i, removed);
+        const cut = (i: number, j: number): Hunk | undefined => {
+            const bi = baseIndex(i);
+            const bj = baseIndex(j);
+            if (i === j && bi === bj) {
+                return undefined;
+            }
+            return {
+                baseStart: hunk.baseStart + bi,
+                baseLines: hunk.baseLines.slice(bi, bj),
+                newStart: hunk.newStart + i,
+                newLines: hunk.newLines.slice(i, j)
+            };
+        };
+
+        const before = cut(0, from);
+        const inside = cut(from, to);
+        const after = cut(to, added);
+        if (before) {
+            remaining.push(before);
+        }
+        if (inside) {
+            selected.push(inside);
+        }
+        if (after) {
+            remaining.push(after);
+        }
+    }
+
+    return { selected, remaining };
+}
+
+/**
+ * Short header for a hunk, in unified diff notation
+ */
+export function formatHunkHeader(hunk: Hunk): string {
+    return `@@ -${hunk.baseStart + 1},${hunk.baseLines.length} +${hunk.newStart + 1},${hunk.newLines.length} @@`;
+}
+
+/**
+ * Order hunks by position; pieces of a cut hunk share a base position and keep their order
+ */
+function compareHunks(x: Hunk, y: Hunk): number {
+    return x.baseStart - y.baseStart || x.newStart - y.newStart;
+}
+
+function baseEnd(hunk: Hunk): number {
+    return hunk.baseStart + hunk.baseLines.length;
+}
+
+/**
+ * Make sure the last line ends with a newline so a following conflict marker starts its own line
+ */
+function terminated(lines: string[], eol: string): string[] {
+    const last = lines[lines.length - 1];
+    if (last === undefined || last.endsWith('\n')) {
+        return lines;
+    }
+    return [...lines.slice(0, -1), `${last}${eol}`];
+}
+
+/**
+ * Index pairs of the lines a and b have in common, in order (Myers' linear-space variant:
+ * split at the middle of an optimal path and solve both halves, so memory stays O(n + m))
+ */
+function commonLines(a: string[], b: string[]): Array<[number, number]> {
+    const pairs: Array<[number, number]> = [];
+    collectCommonLines(a, b, 0, a.length, 0, b.length, pairs);
+    return pairs;
+}
+
+function collectCommonLines(
+    a: string[],
+    b: string[],
+    aStart: number,
+    aEnd: number,
+    bStart: number,
+    bEnd: number,
+    pairs: Array<[number, number]>
+): void {
+    while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+        pairs.push([aStart++, bStart++]);
+    }
+    let suffix = 0;
+    while (aEnd > aStart && bEnd > bStart && a[aEnd - 1] === b[bEnd - 1]) {
+        aEnd--;
+        bEnd--;
+        suffix++;
+    }
+
+    if (aStart < aEnd && bStart < bEnd) {
+        const split = middleOfPath(a, b, aStart, aEnd, bStart, bEnd);
+        if (split) {
+            collectCommonLines(a, b, aStart, split[0], bStart, split[1], pairs);
+            collectCommonLines(a, b, split[0], aEnd, split[1], bEnd, pairs);
+        }
+    }
+
+    for (let i = 0; i < suffix; i++) {
+        pairs.push([aEnd + i, bEnd + i]);
+    }
+}
+
+/**
+ * A point on a shortest edit path between the two ranges, found by searching from both ends
+ * until the paths meet; undefined when the ranges have nothing in common, or when they differ
+ * in so many lines that the search gives up and the whole range becomes one hunk
+ */
+function middleOfPath(
+    a: string[],
+    b: string[],
+    aStart: number,
+    aEnd: number,
+    bStart: number,
+    bEnd: number
+): [number, number] | undefined {
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    const maxD = Math.min(Math.ceil((n + m) / 2), MAX_SEARCH_DEPTH);
+    const offset = maxD;
+    const size = 2 * maxD + 2;
+    // Furthest x reached on each diagonal, forward from the start and backward from the end
+    const forward = new Int32Array(size).fill(-1);
+    const backward = new Int32Array(size).fill(-1);
+    forward[offset + 1] = 0;
+    backward[offset + 1] = 0;
+
+    const delta = n - m;
+    const checkForward = delta % 2 !== 0;
+    // Diagonals that ran off the edges are not searched again
+    let forwardStart = 0;
+    let forwardEnd = 0;
+    let backwardStart = 0;
+    let backwardEnd = 0;
+
+    for (let d = 0; d < maxD; d++) {
+        for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+            const index = offset + k;
+            let x = (k === -d || (k !== d && forward[index - 1] < forward[index + 1]))
+                ? forward[index + 1]
+                : forward[index - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+                x++;
+                y++;
+            }
+            forward[index] = x;
+
+            if (x > n) {
+                forwardEnd += 2;
+            } else if (y > m) {
+                forwardStart += 2;
+            } else if (checkForward) {
+                const other = offset + delta - k;
+                if (other >= 0 && other < size && backward[other] !== -1 && x >= n - backward[other]) {
+                    return [aStart + x, bStart + y];
+                }
+            }
+        }
+
+        for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+            const index = offset + k;
+            let x = (k === -d || (k !== d && backward[index - 1] < backward[index + 1]))
+                ? backward[index + 1]
+                : backward[index - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+                x++;
+                y++;
+            }
+            backward[index] = x;
+
+            if (x > n) {
+                backwardEnd += 2;
+            } else if (y > m) {
+                backwardStart += 2;
+            } else if (!checkForward) {
+                const other = offset + delta - k;
+                if (other >= 0 && other < size && forward[other] !== -1) {
+                    const forwardX = forward[other];
+                    if (forwardX >= n - x) {
+                        return [aStart + forwardX, bStart + forwardX - (other - offset)];
+                    }
+                }
+            }
+        }
+    }
+
+    return undefined;
+}
@@ -2,10 +2,14 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ChangelistService } from './ChangelistService';
+import { ChangelistProvider } from './ChangelistProvider';
 import { RepositoryManager } from './RepositoryManager';
+import { BlobStore } from './BlobStore';
 import { ChangelistTreeProvider, registerChangelistTreeView } from './ChangelistTreeProvider';
+import { OperationHistoryProvider, registerOperationHistoryView } from './OperationHistoryProvider';
 import { registerGitContentProvider, createGitUri, createSnapshotUri } from './GitContentProvider';
-import { ChangelistExport, ShelvedFile, GitRepository } from './types';
+import { formatHunkHeader } from './diff';
+import { ChangelistCommit, ChangelistExport, ShelvedFile, GitRepository, RestoreResult, SnapshotCollision } from './types';
 import {
     getWorkspaceRoot,
     initLogger,
@@ -17,15 +21,23 @@ import {
     showError,
     showWarning,
     getConfig,
-    getAbsolutePathFromRepo
+    getAbsolutePathFromRepo,
+    isBinaryContent,
+    formatSize,
+    formatRenamedPath,
+    escapeLineBreaks,
+    unescapeLineBreaks
 } from './utils';
 
 let repoManager: RepositoryManager | undefined;
 let treeProvider: ChangelistTreeProvider | undefined;
+let historyProvider: OperationHistoryProvider | undefined;
 let outputChannel: vscode.OutputChannel | undefined;
 
 // Map of repository path to service
 const services: Map<string, ChangelistService> = new Map();
+// Map of repository path to its Source Control provider
+const scmProviders: Map<string, ChangelistProvider> = new Map();
 
 /**
  * Activate the extension
@@ -43,16 +55,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     repoManager = new RepositoryManager();
     await repoManager.initialize();
 
-    // Create tree provider
+    // Create tree providers
     treeProvider = new ChangelistTreeProvider();
+    historyProvider = new OperationHistoryProvider();
 
     // Create services for each repository
     for (const repo of repoManager.getRepositories()) {
         await createServiceForRepo(context, repo);
     }
 
-    // Register tree view
+    // Register tree views
     registerChangelistTreeView(context, treeProvider);
+    registerOperationHistoryView(context, historyProvider);
 
     // Register git content provider
     registerGitContentProvider(context);
@@ -88,8 +102,11 @@ async function createServiceForRepo(context: vscode.ExtensionContext, repo: GitR
     }
 
     const service = new ChangelistService(context, repo);
+    await service.initialize();
     services.set(repo.path, service);
+    scmProviders.set(repo.path, new ChangelistProvider(service));
     treeProvider?.addService(service);
+    historyProvider?.addService(service);
 
     log(`Created service for repository: ${repo.name} at ${repo.path}`);
 }
@@ -105,9 +122,12 @@ async function syncServicesWithRepos(context: vscode.ExtensionContext): Promise<
     // Remove services for repos that no longer exist
     for (const [repoPath, service] of services) {
         if (!currentRepos.has(repoPath)) {
+            scmProviders.get(repoPath)?.dispose();
+            scmProviders.delete(repoPath);
             service.dispose();
             services.delete(repoPath);
             treeProvider?.removeService(repoPath);
+            historyProvider?.removeService(repoPath);
             log(`Removed service for repository: ${repoPath}`);
         }
     }
@@ -133,6 +153,10 @@ async function refreshAllServices(): Promise<void> {
  * Dispose all services
  */
 function disposeAllServices(): void {
+    for (const provider of scmProviders.values()) {
+        provider.dispose();
+    }
+    scmProviders.clear();
     for (const service of services.values()) {
         service.dispose();
     }
@@ -193,18 +217,37 @@ function registerCommands(context: vscode.ExtensionContext): void {
         ['smartChangelists.deleteChangelist', (arg) => deleteChangelist(arg)],
         ['smartChangelists.renameChangelist', (arg) => renameChangelist(arg)],
         ['smartChangelists.setActiveChangelist', (arg) => setActiveChangelist(arg)],
+        ['smartChangelists.editDescription', (arg) => editChangelistDetail(arg, 'description')],
+        ['smartChangelists.editCommitTemplate', (arg) => editChangelistDetail(arg, 'commitTemplate')],
+        ['smartChangelists.mergeChangelists', (arg, ...args) => mergeChangelists(arg, args)],
+        ['smartChangelists.archiveChangelist', (arg) => archiveChangelist(arg)],
+        ['smartChangelists.unarchiveChangelist', (arg) => unarchiveChangelist(arg)],
+        ['smartChangelists.splitChangelist', (arg) => splitChangelist(arg)],
 
         // Shelve/Unshelve operations
         ['smartChangelists.shelveFile', (arg, ...args) => shelveFile(arg, args)],
+        ['smartChangelists.shelveAndRevert', (arg, ...args) => shelveFile(arg, args, true)],
+        ['smartChangelists.shelveHunks', (arg) => shelveHunks(arg)],
+        ['smartChangelists.assignToChangelist', (arg, ...args) => assignToChangelist(arg, args)],
+        ['smartChangelists.shelveSelection', () => shelveSelection()],
         ['smartChangelists.unshelveFile', (arg) => unshelveFile(arg)],
         ['smartChangelists.unshelveAll', (arg) => unshelveAll(arg)],
         ['smartChangelists.applyAndStage', (arg) => applyAndStage(arg)],
         ['smartChangelists.applyAllAndStage', (arg) => applyAllAndStage(arg)],
         ['smartChangelists.deleteShelvedFile', (arg, ...args) => deleteShelvedFile(arg, args)],
+        ['smartChangelists.moveSnapshot', (arg, ...args) => transferSnapshots(arg, args, true)],
+        ['smartChangelists.copySnapshot', (arg, ...args) => transferSnapshots(arg, args, false)],
+        ['smartChangelists.rebaseSnapshot', (arg) => rebaseSnapshot(arg)],
 
         // Commit operations
         ['smartChangelists.commitChangelist', (arg) => commitChangelist(arg)],
-        ['smartChangelists.commitWorkingChanges', () => commitWorkingChanges()],
+        ['smartChangelists.commitWorkingChanges', (arg) => commitWorkingChanges(arg)],
+        ['smartChangelists.toggleExcludeFromCommit', (arg) => toggleExcludeFromCommit(arg)],
+        ['smartChangelists.installCommitHook', () => installCommitHook()],
+        ['smartChangelists.openCommit', (arg) => openCommit(arg)],
+        ['smartChangelists.revertCommit', (arg) => revertCommit(arg)],
+        ['smartChangelists.createChangelistFromCommit', (arg) => createChangelistFromCommit(arg)],
+        ['smartChangelists.createChangelistFromRefDiff', (arg) => createChangelistFromRefDiff(arg)],
 
         // File operations
         ['smartChangelists.openFile', (arg) => openFile(arg)],
@@ -220,6 +263,14 @@ function registerCommands(context: vscode.ExtensionContext): void {
         ['smartChangelists.compareWith', (arg) => compareWith(arg)],
         ['smartChangelists.compareAllVersions', (arg) => compareAllVersions(arg)],
 
+        // Remote sync
+        ['smartChangelists.publishChangelist', (arg) => publishChangelist(arg)],
+        ['smartChangelists.fetchChangelists', () => fetchChangelists()],
+
+        // Operation journal
+        ['smartChangelists.undoOperation', () => undoOperation()],
+        ['smartChangelists.redoOperation', () => undoOperation(true)],
+
         // Other
         ['smartChangelists.refreshAll', () => refreshAll()],
         ['smartChangelists.exportChangelists', () => exportChangelists()],
@@ -242,7 +293,7 @@ function registerCommands(context: vscode.ExtensionContext): void {
  * Generate smart suggestion for next changelist name based on existing names
  */
 function generateChangelistNameSuggestion(service: ChangelistService): string {
-    const changelists = service.getChangelists().filter(cl => !cl.isDefault);
+    const changelists = service.getChangelists().filter(cl => !cl.isDefault && !cl.automatic);
 
     if (changelists.length === 0) {
         return 'v1';
@@ -352,9 +403,11 @@ async function deleteChangelist(arg: unknown): Promise<void> {
         return;
     }
 
-    const message = changelist.shelvedFiles.length > 0
-        ? `Delete "${changelist.label}"? ${changelist.shelvedFiles.length} shelved file(s) will be unshelved back to working directory.`
-        : `Delete "${changelist.label}"?`;
+    const message = changelist.automatic || changelist.archivedAt
+        ? `Delete "${changelist.label}"? Its snapshots are discarded; working files are left as they are.`
+        : changelist.shelvedFiles.length > 0
+            ? `Delete "${changelist.label}"? ${changelist.shelvedFiles.length} shelved file(s) will be unshelved back to working directory.`
+            : `Delete "${changelist.label}"?`;
 
     if (await promptConfirm(message)) {
         await service.deleteChangelist(clId);
@@ -409,6 +462,259 @@ async function renameChangelist(arg: unknown): Promise<void> {
     }
 }
 
+/**
+ * Edit a changelist's description or commit message template.
+ * The input box is single-line, so line breaks are typed as \n.
+ */
+async function editChangelistDetail(arg: unknown, field: 'description' | 'commitTemplate'): Promise<void> {
+    let service = getServiceFromArg(arg);
+    let changelistId = getChangelistIdFromArg(arg);
+    const what = field === 'description' ? 'description' : 'commit message template';
+
+    if (!service || !changelistId) {
+        const { selectedService, selectedChangelist } = await selectChangelistFromAllRepos(`Select changelist to edit the ${what} of`);
+        if (!selectedService || !selectedChangelist) {
+            return;
+        }
+        service = selectedService;
+        changelistId = selectedChangelist.id;
+    }
+
+    const changelist = service.getChangelist(changelistId);
+    if (!changelist) {
+        showError('Changelist not found');
+        return;
+    }
+
+    const value = await promptInput({
+        prompt: field === 'description'
+            ? `Description of "${changelist.label}" (\\n for a line break, empty to clear)`
+            : `Commit message template of "${changelist.label}": {label}, {description}, {branch}, {files}, {fileCount} (\\n for a line break, empty to clear)`,
+        placeholder: field === 'description' ? 'What this changelist is for' : '{branch}: {label}\\n\\n{files}',
+        value: escapeLineBreaks(changelist[field] ?? '')
+    });
+    if (value === undefined) {
+        return;
+    }
+
+    try {
+        await service.updateChangelistDetails(changelist.id, { [field]: unescapeLineBreaks(value) });
+        showInfo(value.trim() ? `Updated the ${what} of ${changelist.label}` : `Cleared the ${what} of ${changelist.label}`);
+    } catch (error) {
+        showError(`Update failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Move a changelist to the archive instead of deleting it
+ */
+async function archiveChangelist(arg: unknown): Promise<void> {
+    let service = getServiceFromArg(arg);
+    let changelistId = getChangelistIdFromArg(arg);
+
+    if (!service || !changelistId) {
+        const { selectedService, selectedChangelist } = await selectChangelistFromAllRepos('Select changelist to archive');
+        if (!selectedService || !selectedChangelist) {
+            return;
+        }
+        service = selectedService;
+        changelistId = selectedChangelist.id;
+    }
+
+    try {
+        await service.archiveChangelist(changelistId);
+        showInfo(`Archived changelist: ${service.getChangelist(changelistId)?.label}`);
+    } catch (error) {
+        showError(`Archive failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Bring an archived changelist back
+ */
+async function unarchiveChangelist(arg: unknown): Promise<void> {
+    let service = getServiceFromArg(arg);
+    let changelistId = getChangelistIdFromArg(arg);
+
+    if (!service || !changelistId) {
+        const items = [...services.values()].flatMap(s =>
+            s.getArchivedChangelists().map(cl => ({
+                label: cl.label,
+                description: [new Date(cl.archivedAt!).toLocaleString(), services.size > 1 ? s.repository.name : undefined]
+                    .filter(Boolean)
+                    .join(' • '),
+                service: s,
+                id: cl.id
+            }))
+        );
+        if (items.length === 0) {
+            showInfo('The archive is empty');
+            return;
+        }
+
+        const selected = await promptSelect(items, { placeholder: 'Select changelist to restore from the archive' });
+        if (!selected || Array.isArray(selected)) {
+            return;
+        }
+        service = selected.service;
+        changelistId = selected.id;
+    }
+
+    try {
+        await service.unarchiveChangelist(changelistId);
+        showInfo(`Restored changelist: ${service.getChangelist(changelistId)?.label}`);
+    } catch (error) {
+        showError(`Restore failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Merge two or more changelists of a repository into one, asking which snapshot to keep
+ * for each file that several of them hold
+ */
+async function mergeChangelists(arg: unknown, additionalArgs: unknown[]): Promise<void> {
+    const service = getServiceFromArg(arg);
+    if (!service) {
+        if (services.size > 1) {
+            const selected = await selectRepository('Merge changelists in which repository?');
+            if (!selected) {
+                return;
+            }
+            return mergeChangelists({ repoPath: selected.path }, []);
+        }
+        showWarning('No git repository available');
+        return;
+    }
+
+    // Changelists selected in the tree are preselected
+    const preselected = new Set<string>();
+    const selection = Array.isArray(additionalArgs[0]) ? additionalArgs[0] as unknown[] : [];
+    for (const item of [arg, ...selection]) {
+        const id = getChangelistIdFromArg(item);
+        if (id) {
+            preselected.add(id);
+        }
+    }
+
+    const changelists = service.getChangelists().filter(cl => !cl.isDefault && !cl.automatic);
+    if (changelists.length < 2) {
+        showWarning('At least two changelists are needed to merge');
+        return;
+    }
+
+    const picked = await promptSelect(
+        changelists.map(cl => ({
+            label: cl.label,
+            description: `${cl.shelvedFiles.length} snapshot(s)`,
+            picked: preselected.has(cl.id),
+            id: cl.id
+        })),
+        { placeholder: 'Select the changelists to merge', canPickMany: true }
+    );
+    if (!picked || !Array.isArray(picked)) {
+        return;
+    }
+    if (picked.length < 2) {
+        showWarning('Select at least two changelists to merge');
+        return;
+    }
+
+    const target = await promptSelect(
+        picked.map(item => ({ label: item.label, description: item.description, id: item.id })),
+        { placeholder: 'Merge into which changelist? The others are removed' }
+    );
+    if (!target || Array.isArray(target)) {
+        return;
+    }
+
+    const ids = picked.map(item => item.id);
+    const keep: Record<string, string> = {};
+    for (const relativePath of service.getMergeConflicts(ids)) {
+        const holders = picked.filter(item => service.hasSnapshot(item.id, relativePath));
+        const choice = await promptSelect(
+            [
+                { label: 'Keep All', description: 'The newest snapshot is kept, the others become revisions', id: '' },
+                ...holders.map(item => ({ label: `Keep "${item.label}"`, description: 'Drop the other snapshots of this file', id: item.id }))
+            ],
+            { placeholder: `${relativePath} is in ${holders.length} of the changelists` }
+        );
+        if (!choice || Array.isArray(choice)) {
+            return;
+        }
+        if (choice.id) {
+            keep[relativePath] = choice.id;
+        }
+    }
+
+    try {
+        await service.mergeChangelists(ids, target.id, keep);
+        showInfo(`Merged ${ids.length} changelists into ${target.label}`);
+    } catch (error) {
+        showError(`Merge failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Move some of a changelist's snapshots to a new changelist
+ */
+async function splitChangelist(arg: unknown): Promise<void> {
+    let service = getServiceFromArg(arg);
+    let changelistId = getChangelistIdFromArg(arg);
+
+    if (!service || !changelistId) {
+        const { selectedService, selectedChangelist } = await selectChangelistFromAllRepos('Select changelist to split');
+        if (!selectedService || !selectedChangelist) {
+            return;
+        }
+        service = selectedService;
+        changelistId = selectedChangelist.id;
+    }
+
+    const changelist = service.getChangelist(changelistId);
+    if (!changelist) {
+        showError('Changelist not found');
+        return;
+    }
+
+    if (changelist.shelvedFiles.length === 0) {
+        showInfo(`${changelist.label} has no snapshots to split off`);
+        return;
+    }
+
+    const picked = await promptSelect(
+        changelist.shelvedFiles.map(f => ({
+            label: path.basename(f.relativePath),
+            description: f.relativePath,
+            relativePath: f.relativePath
+        })),
+        { placeholder: `Select the snapshots to move out of ${changelist.label}`, canPickMany: true }
+    );
+    if (!picked || !Array.isArray(picked) || picked.length === 0) {
+        return;
+    }
+
+    const name = await promptInput({
+        prompt: 'Name of the new changelist',
+        value: `${changelist.label} (split)`,
+        validateInput: (value) => {
+            if (!value.trim()) {
+                return 'Name cannot be empty';
+            }
+            return undefined;
+        }
+    });
+    if (!name?.trim()) {
+        return;
+    }
+
+    try {
+        await service.splitChangelist(changelist.id, picked.map(item => item.relativePath), name.trim());
+        showInfo(`Moved ${picked.length} snapshot(s) to ${name.trim()}`);
+    } catch (error) {
+        showError(`Split failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 async function setActiveChangelist(arg: unknown): Promise<void> {
     const service = getServiceFromArg(arg);
     const changelistId = getChangelistIdFromArg(arg);
@@ -420,7 +726,7 @@ async function setActiveChangelist(arg: unknown): Promise<void> {
 
     let clId = changelistId;
     if (!clId) {
-        const changelists = service.getChangelists();
+        const changelists = service.getChangelists().filter(cl => !cl.automatic);
         const selected = await promptSelect(
             changelists.map(cl => ({
                 label: cl.label,
@@ -434,17 +740,24 @@ async function setActiveChangelist(arg: unknown): Promise<void> {
         clId = (selected as { id: string }).id;
     }
 
-    await service.setActiveChangelist(clId);
-    const changelist = service.getChangelist(clId);
-    if (changelist) {
-        showInfo(`Active changelist: ${changelist.label}`);
+    try {
+        await service.setActiveChangelist(clId);
+        const changelist = service.getChangelist(clId);
+        if (changelist) {
+            showInfo(`Active changelist: ${changelist.label}`);
+        }
+    } catch (error) {
+        showError(`Set active failed: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
 
 // ========== Shelve/Unshelve Operations ==========
 
-async function shelveFile(arg: unknown, additionalArgs: unknown[]): Promise<void> {
-    const service = getServiceFromArg(arg);
+/**
+ * Working files selected in the tree or SCM view (clicked item plus multi-selection),
+ * or the file in the active editor when run from the command palette
+ */
+function getSelectedFiles(arg: unknown, additionalArgs: unknown[]): { files: string[]; repoPath?: string } {
     const files: string[] = [];
     let repoPath: string | undefined;
 
@@ -499,6 +812,13 @@ async function shelveFile(arg: unknown, additionalArgs: unknown[]): Promise<void
         }
     }
 
+    return { files, repoPath };
+}
+
+async function shelveFile(arg: unknown, additionalArgs: unknown[], revert: boolean = false): Promise<void> {
+    const service = getServiceFromArg(arg);
+    const { files, repoPath } = getSelectedFiles(arg, additionalArgs);
+
     // Get the service for this repo
     const targetService = repoPath ? services.get(repoPath) : service;
 
@@ -512,17 +832,175 @@ async function shelveFile(arg: unknown, additionalArgs: unknown[]): Promise<void
         return;
     }
 
-    // Show changelist picker (only non-default)
-    const changelists = targetService.getChangelists().filter(cl => !cl.isDefault);
+    const target = await pickShelveTarget(
+        targetService,
+        revert
+            ? `Shelve and revert ${files.length} file(s) to changelist`
+            : `Shelve ${files.length} file(s) to changelist`
+    );
+    if (!target) {
+        return;
+    }
+
+    const { id, label } = target;
+
+    try {
+        if (!revert) {
+            await targetService.shelveFiles(files, id);
+            showInfo(`Shelved ${files.length} file(s) to ${label}`);
+            return;
+        }
+
+        // Unsaved editor changes would otherwise be neither shelved nor reverted
+        await saveDirtyDocuments(targetService, files);
+
+        const notReverted = await targetService.shelveAndRevertFiles(files, id);
+        if (notReverted.length > 0) {
+            showWarning(`Shelved ${files.length} file(s) to ${label}, but could not revert: ${notReverted.join(', ')}. The snapshots are kept.`);
+        } else {
+            showInfo(`Shelved and reverted ${files.length} file(s) to ${label}`);
+        }
+    } catch (error) {
+        showError(`Shelve failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function assignToChangelist(arg: unknown, additionalArgs: unknown[]): Promise<void> {
+    const { files, repoPath } = getSelectedFiles(arg, additionalArgs);
+    const service = repoPath ? services.get(repoPath) : getServiceFromArg(arg);
+
+    if (!service) {
+        showWarning('No git repository available');
+        return;
+    }
+
+    const changed = new Set(service.getChangedFiles().map(file => file.relativePath));
+    const toMove = files.filter(file => changed.has(file));
+    if (toMove.length === 0) {
+        showWarning('No changed files selected');
+        return;
+    }
+
+    const current = new Set(toMove.map(file => service.getChangelistForFile(file).id));
+    const selected = await promptSelect(
+        service.getChangelists()
+            .filter(cl => !cl.automatic)
+            .map(cl => ({
+                label: cl.label,
+                description: current.size === 1 && current.has(cl.id) ? '(Current)' : cl.isActive ? '(Active)' : '',
+                id: cl.id
+            })),
+        { placeholder: `Move ${toMove.length} file(s) to changelist` }
+    );
+    if (!selected || Array.isArray(selected)) {
+        return;
+    }
+
+    try {
+        await service.moveWorkingFiles(toMove, selected.id);
+        showInfo(`Moved ${toMove.length} file(s) to ${selected.label}`);
+    } catch (error) {
+        showError(`Move failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function shelveHunks(arg: unknown): Promise<void> {
+    let service = getServiceFromArg(arg);
+    let relativePath = getFilePathFromArg(arg);
+
+    // Command palette: use the active editor's file
+    if (!relativePath && vscode.window.activeTextEditor) {
+        const active = getEditorFile(vscode.window.activeTextEditor.document);
+        service = active?.service;
+        relativePath = active?.relativePath;
+    }
+
+    if (!service || !relativePath) {
+        showWarning('No file selected');
+        return;
+    }
+
+    try {
+        await saveDirtyDocuments(service, [relativePath]);
+
+        const hunks = await service.getWorkingHunks(relativePath);
+        if (hunks.length === 0) {
+            showInfo('No changes to shelve');
+            return;
+        }
+
+        const picked = await promptSelect(
+            hunks.map((hunk, index) => ({
+                label: formatHunkHeader(hunk),
+                description: `-${hunk.baseLines.length} +${hunk.newLines.length}`,
+                detail: (hunk.newLines[0] ?? hunk.baseLines[0] ?? '').trim(),
+                index
+            })),
+            { placeholder: `Select hunks of ${path.basename(relativePath)} to shelve`, canPickMany: true }
+        );
+        if (!picked || !Array.isArray(picked) || picked.length === 0) {
+            return;
+        }
+
+        const target = await pickShelveTarget(service, `Shelve ${picked.length} hunk(s) to changelist`);
+        if (!target) {
+            return;
+        }
+
+        await service.shelveHunks(relativePath, target.id, picked.map(item => item.index));
+        showInfo(`Shelved ${picked.length} of ${hunks.length} hunk(s) of ${path.basename(relativePath)} to ${target.label}`);
+    } catch (error) {
+        showError(`Shelve failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function shelveSelection(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    const target = editor ? getEditorFile(editor.document) : undefined;
+
+    if (!editor || !target) {
+        showWarning('Open a file of a git repository to shelve lines from');
+        return;
+    }
+
+    const { service, relativePath } = target;
+
+    // A selection ending at the start of a line does not include that line
+    const { start, end } = editor.selection;
+    const endLine = end.character === 0 && end.line > start.line ? end.line - 1 : end.line;
+
+    const changelist = await pickShelveTarget(service, `Shelve lines ${start.line + 1}-${endLine + 1} of ${path.basename(relativePath)} to changelist`);
+    if (!changelist) {
+        return;
+    }
+
+    try {
+        await saveDirtyDocuments(service, [relativePath]);
+        await service.shelveLines(relativePath, changelist.id, start.line, endLine);
+        showInfo(`Shelved selected lines of ${path.basename(relativePath)} to ${changelist.label}`);
+    } catch (error) {
+        showError(`Shelve failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Ask for the changelist to shelve into, offering to create one when there is none
+ */
+async function pickShelveTarget(service: ChangelistService, placeholder: string): Promise<{ id: string; label: string } | undefined> {
+    // Automatic changelists (local history, recovery) are filled by the service only
+    let changelists = service.getChangelists().filter(cl => !cl.isDefault && !cl.automatic);
 
     if (changelists.length === 0) {
         const create = await promptConfirm('No changelists found. Create a new one?');
-        if (create) {
-            await createChangelist({ repoPath: targetService.repository.path });
-            // Try again
-            return shelveFile(arg, additionalArgs);
+        if (!create) {
+            return undefined;
+        }
+
+        await createChangelist({ repoPath: service.repository.path });
+        changelists = service.getChangelists().filter(cl => !cl.isDefault && !cl.automatic);
+        if (changelists.length === 0) {
+            return undefined;
         }
-        return;
     }
 
     const items = changelists.map(cl => ({
@@ -531,23 +1009,47 @@ async function shelveFile(arg: unknown, additionalArgs: unknown[]): Promise<void
         id: cl.id
     }));
 
-    const selected = await promptSelect(items, {
-        placeholder: `Shelve ${files.length} file(s) to changelist`
-    });
+    const selected = await promptSelect(items, { placeholder });
+    if (!selected || Array.isArray(selected)) {
+        return undefined;
+    }
 
-    if (!selected || Array.isArray(selected)) return;
+    return selected;
+}
 
-    try {
-        await targetService.shelveFiles(files, (selected as { id: string }).id);
-        showInfo(`Shelved ${files.length} file(s) to ${(selected as { label: string }).label}`);
-    } catch (error) {
-        showError(`Shelve failed: ${error instanceof Error ? error.message : String(error)}`);
+/**
+ * Save open editors of the given files so their on-disk content is what gets shelved
+ */
+async function saveDirtyDocuments(service: ChangelistService, relativePaths: string[]): Promise<void> {
+    for (const doc of vscode.workspace.textDocuments) {
+        const relativePath = path.relative(service.repository.path, doc.uri.fsPath).replace(/\\/g, '/');
+        if (doc.isDirty && relativePaths.includes(relativePath)) {
+            await doc.save();
+        }
     }
+    await service.refresh();
+}
+
+/**
+ * Service and repository-relative path of a document, if it belongs to a known repository
+ */
+function getEditorFile(document: vscode.TextDocument): { service: ChangelistService; relativePath: string } | undefined {
+    if (document.isUntitled || !repoManager) {
+        return undefined;
+    }
+
+    const repo = repoManager.getRepositoryForFile(document.uri.fsPath);
+    const service = repo ? services.get(repo.path) : undefined;
+    if (!repo || !service) {
+        return undefined;
+    }
+
+    return { service, relativePath: path.relative(repo.path, document.uri.fsPath).replace(/\\/g, '/') };
 }
 
 async function unshelveFile(arg: unknown): Promise<void> {
     const service = getServiceFromArg(arg);
-    const { changelistId, relativePath } = getShelvedFileFromArg(arg);
+    const { changelistId, relativePath, revisionAt } = getShelvedFileFromArg(arg);
 
     if (!service || !changelistId || !relativePath) {
         showWarning('No shelved file selected');
@@ -555,8 +1057,8 @@ async function unshelveFile(arg: unknown): Promise<void> {
     }
 
     try {
-        await service.unshelveFile(changelistId, relativePath);
-        showInfo(`Unshelved: ${path.basename(relativePath)}`);
+        const result = await service.unshelveFile(changelistId, relativePath, revisionAt);
+        await reportRestoreResults(service, [result], `Unshelved: ${path.basename(relativePath)}`);
     } catch (error) {
         showError(`Unshelve failed: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -588,23 +1090,82 @@ async function unshelveAll(arg: unknown): Promise<void> {
 
     if (proceed) {
         try {
-            await service.unshelveAll(changelistId);
-            showInfo(`Unshelved all files from ${changelist.label}`);
+            const results = await service.unshelveAll(changelistId);
+            await reportRestoreResults(service, results, `Unshelved all files from ${changelist.label}`);
         } catch (error) {
             showError(`Unshelve failed: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 }
 
-async function deleteShelvedFile(arg: unknown, additionalArgs: unknown[]): Promise<void> {
-    // Collect all selected files
-    const files: Array<{ changelistId: string; relativePath: string; service: ChangelistService }> = [];
+async function rebaseSnapshot(arg: unknown): Promise<void> {
+    const service = getServiceFromArg(arg);
+    const { changelistId, relativePath } = getShelvedFileFromArg(arg);
+
+    if (!service || !changelistId || !relativePath) {
+        showWarning('No snapshot selected');
+        return;
+    }
+
+    try {
+        const conflicts = await service.rebaseSnapshot(changelistId, relativePath);
+        if (conflicts > 0) {
+            showWarning(
+                `Rebased ${path.basename(relativePath)} onto HEAD with ${conflicts} conflict(s). ` +
+                'The snapshot contains conflict markers; the previous snapshot is kept as a revision.'
+            );
+        } else {
+            showInfo(`Rebased ${path.basename(relativePath)} onto HEAD`);
+        }
+    } catch (error) {
+        showError(`Rebase failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Report how restored files ended up and offer to open the ones left with conflicts
+ */
+async function reportRestoreResults(
+    service: ChangelistService,
+    results: RestoreResult[],
+    message: string,
+    staged: boolean = false
+): Promise<void> {
+    const merged = results.filter(r => r.merged && r.conflicts === 0).length;
+    const conflicted = results.filter(r => r.conflicts > 0);
+    const mergedNote = merged > 0 ? ` (merged with working changes in ${merged} file(s))` : '';
+
+    if (conflicted.length === 0) {
+        showInfo(`${message}${mergedNote}`);
+        return;
+    }
+
+    const names = conflicted.map(r => path.basename(r.relativePath)).join(', ');
+    const action = await showWarning(
+        `${message}${mergedNote}. Conflicts with working changes in: ${names}` +
+        (staged ? ' (not staged)' : ''),
+        'Open Conflicted Files'
+    );
+
+    if (action === 'Open Conflicted Files') {
+        for (const result of conflicted) {
+            const uri = vscode.Uri.file(getAbsolutePathFromRepo(result.relativePath, service.repository.path));
+            if (fs.existsSync(uri.fsPath)) {
+                await vscode.window.showTextDocument(uri, { preview: false });
+            }
+        }
+    }
+}
+
+async function deleteShelvedFile(arg: unknown, additionalArgs: unknown[]): Promise<void> {
+    // Collect all selected files
+    const files: Array<{ changelistId: string; relativePath: string; revisionAt?: number; service: ChangelistService }> = [];
 
     const extractFile = (item: unknown) => {
         const service = getServiceFromArg(item);
-        const { changelistId, relativePath } = getShelvedFileFromArg(item);
+        const { changelistId, relativePath, revisionAt } = getShelvedFileFromArg(item);
         if (service && changelistId && relativePath) {
-            files.push({ changelistId, relativePath, service });
+            files.push({ changelistId, relativePath, revisionAt, service });
         }
     };
 
@@ -624,15 +1185,20 @@ async function deleteShelvedFile(arg: unknown, additionalArgs: unknown[]): Promi
     // Show confirmation dialog
     const proceed = await promptConfirm(
         files.length === 1
-            ? `Delete snapshot "${path.basename(files[0].relativePath)}"? This cannot be undone.`
-            : `Delete ${files.length} snapshots? This cannot be undone.`
+            ? `Delete snapshot "${path.basename(files[0].relativePath)}"? "Undo Last Changelist Operation" can bring it back.`
+            : `Delete ${files.length} snapshots? Each can be brought back with "Undo Last Changelist Operation".`
     );
 
     if (!proceed) return;
 
     // Delete all selected files
-    for (const file of files) {
-        await file.service.deleteShelvedFile(file.changelistId, file.relativePath);
+    try {
+        for (const file of files) {
+            await file.service.deleteShelvedFile(file.changelistId, file.relativePath, file.revisionAt);
+        }
+    } catch (error) {
+        showError(`Delete failed: ${error instanceof Error ? error.message : String(error)}`);
+        return;
     }
 
     showInfo(
@@ -642,157 +1208,618 @@ async function deleteShelvedFile(arg: unknown, additionalArgs: unknown[]): Promi
     );
 }
 
+/**
+ * Move or copy the selected snapshots to another changelist, possibly of another repository.
+ * additionalArgs holds the multi-selection and, when dropped in the tree, the target changelist.
+ */
+async function transferSnapshots(arg: unknown, additionalArgs: unknown[], move: boolean): Promise<void> {
+    const files: Array<{ changelistId: string; relativePath: string; service: ChangelistService }> = [];
+
+    const extractFile = (item: unknown) => {
+        const service = getServiceFromArg(item);
+        const { changelistId, relativePath, revisionAt } = getShelvedFileFromArg(item);
+        if (service && changelistId && relativePath && revisionAt === undefined &&
+            !files.some(f => f.service === service && f.changelistId === changelistId && f.relativePath === relativePath)) {
+            files.push({ changelistId, relativePath, service });
+        }
+    };
+
+    extractFile(arg);
+    if (Array.isArray(additionalArgs) && Array.isArray(additionalArgs[0])) {
+        (additionalArgs[0] as unknown[]).forEach(extractFile);
+    }
+
+    if (files.length === 0) {
+        showWarning('No shelved file selected');
+        return;
+    }
+
+    const verb = move ? 'Move' : 'Copy';
+    let target: { service: ChangelistService; id: string; label: string } | undefined;
+
+    const dropTarget = additionalArgs[1] as { repoPath?: string; changelistId?: string } | undefined;
+    if (dropTarget?.repoPath && dropTarget.changelistId) {
+        const service = services.get(dropTarget.repoPath);
+        const changelist = service?.getChangelist(dropTarget.changelistId);
+        if (!service || !changelist || changelist.isDefault || changelist.automatic) {
+            showWarning('Snapshots can only be moved to a user changelist');
+            return;
+        }
+        target = { service, id: changelist.id, label: changelist.label };
+    } else {
+        const showRepo = services.size > 1;
+        const items = [...services.values()].flatMap(service =>
+            service.getChangelists()
+                .filter(cl => !cl.isDefault && !cl.automatic)
+                .filter(cl => !files.every(f => f.service === service && f.changelistId === cl.id))
+                .map(cl => ({
+                    label: cl.label,
+                    description: showRepo ? service.repository.name : cl.isActive ? '(Active)' : '',
+                    id: cl.id,
+                    service
+                }))
+        );
+
+        if (items.length === 0) {
+            showWarning('No other changelist to move snapshots to');
+            return;
+        }
+
+        const selected = await promptSelect(items, {
+            placeholder: `${verb} ${files.length} snapshot(s) to changelist`
+        });
+        if (!selected || Array.isArray(selected)) {
+            return;
+        }
+        target = selected;
+    }
+
+    let transferred = 0;
+    let skipped = 0;
+    for (const file of files) {
+        if (file.service === target.service && file.changelistId === target.id) {
+            continue;
+        }
+
+        let collision: SnapshotCollision = 'replace';
+        if (target.service.hasSnapshot(target.id, file.relativePath)) {
+            const choice = await promptSelect(
+                [
+                    { label: 'Replace', description: 'Drop the existing snapshot and its revisions', collision: 'replace' as const },
+                    { label: 'Keep Both', description: 'Keep the older snapshot as a revision', collision: 'keepBoth' as const },
+                    { label: 'Skip', description: `Leave ${path.basename(file.relativePath)} where it is`, collision: 'skip' as const }
+                ],
+                { placeholder: `"${target.label}" already has a snapshot of ${file.relativePath}` }
+            );
+            if (!choice || Array.isArray(choice)) {
+                break;
+            }
+            collision = choice.collision;
+        }
+
+        try {
+            const done = await file.service.copySnapshot(
+                file.changelistId, file.relativePath, target.service, target.id, collision, move
+            );
+            if (done) {
+                transferred++;
+            } else {
+                skipped++;
+            }
+        } catch (error) {
+            showError(`${verb} failed for ${file.relativePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    if (transferred > 0) {
+        showInfo(`${move ? 'Moved' : 'Copied'} ${transferred} snapshot(s) to ${target.label}` +
+            (skipped > 0 ? ` (${skipped} skipped)` : ''));
+    }
+}
+
 async function applyAndStage(arg: unknown): Promise<void> {
     const service = getServiceFromArg(arg);
-    const { changelistId, relativePath } = getShelvedFileFromArg(arg);
+    const { changelistId, relativePath, revisionAt } = getShelvedFileFromArg(arg);
 
     if (!service || !changelistId || !relativePath) {
         showWarning('No snapshot selected');
         return;
     }
 
-    try {
-        await service.applyAndStage(changelistId, relativePath);
-        showInfo(`Applied & staged: ${path.basename(relativePath)}`);
-    } catch (error) {
-        showError(`Apply failed: ${error instanceof Error ? error.message : String(error)}`);
+    try {
+        const result = await service.applyAndStage(changelistId, relativePath, revisionAt);
+        await reportRestoreResults(service, [result], `Applied & staged: ${path.basename(relativePath)}`, true);
+    } catch (error) {
+        showError(`Apply failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function applyAllAndStage(arg: unknown): Promise<void> {
+    const service = getServiceFromArg(arg);
+    const changelistId = getChangelistIdFromArg(arg);
+
+    if (!service || !changelistId) {
+        showWarning('No changelist selected');
+        return;
+    }
+
+    const changelist = service.getChangelist(changelistId);
+    if (!changelist) {
+        showError('Changelist not found');
+        return;
+    }
+
+    if (changelist.shelvedFiles.length === 0) {
+        showWarning('No snapshots in this changelist');
+        return;
+    }
+
+    const proceed = await promptConfirm(
+        `Apply & stage all ${changelist.shelvedFiles.length} file(s) from "${changelist.label}"?`
+    );
+
+    if (proceed) {
+        try {
+            const results = await service.applyAllAndStage(changelistId);
+            await reportRestoreResults(service, results, `Applied & staged all files from ${changelist.label}`, true);
+        } catch (error) {
+            showError(`Apply failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
+
+// ========== Commit Operations ==========
+
+async function commitChangelist(arg: unknown): Promise<void> {
+    const service = getServiceFromArg(arg);
+    const changelistId = getChangelistIdFromArg(arg);
+
+    if (!service || !changelistId) {
+        showError('No changelist selected');
+        return;
+    }
+
+    const changelist = service.getChangelist(changelistId);
+    if (!changelist) {
+        showError('Changelist not found');
+        return;
+    }
+
+    if (changelist.isDefault) {
+        showWarning('Use "Commit Working Changes" for the default changelist');
+        return;
+    }
+
+    if (changelist.archivedAt) {
+        showWarning(`${changelist.label} is archived; restore it from the archive first`);
+        return;
+    }
+
+    if (changelist.shelvedFiles.length === 0) {
+        showWarning('No shelved files to commit');
+        return;
+    }
+
+    // Asked regardless of confirmBeforeCommit: the changelist holds changes meant to stay local
+    if (changelist.excludeFromCommit) {
+        const proceed = await promptConfirm(
+            `"${changelist.label}" is excluded from commits. Commit its ${changelist.shelvedFiles.length} shelved file(s) anyway?`
+        );
+        if (!proceed) {
+            return;
+        }
+    }
+
+    const config = getConfig();
+    if (config.confirmBeforeCommit) {
+        const proceed = await promptConfirm(
+            `Commit ${changelist.shelvedFiles.length} shelved file(s) from "${changelist.label}"?`
+        );
+        if (!proceed) return;
+    }
+
+    const message = await promptInput({
+        prompt: 'Enter commit message (\\n for a line break)',
+        placeholder: 'Commit message',
+        value: escapeLineBreaks(await service.getCommitMessage(changelistId)),
+        validateInput: (value) => {
+            if (!value.trim()) return 'Message cannot be empty';
+            return undefined;
+        }
+    });
+
+    if (!message) return;
+
+    try {
+        await service.commitChangelist(changelistId, unescapeLineBreaks(message).trim());
+        showInfo(`Committed ${changelist.shelvedFiles.length} file(s) from ${changelist.label} and moved it to the archive`);
+    } catch (error) {
+        showError(`Commit failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function commitWorkingChanges(arg?: unknown): Promise<void> {
+    // The Source Control input box passes its repository; otherwise, if multiple repos, ask user to select
+    let service = arg ? getServiceFromArg(arg) : undefined;
+
+    if (!service && services.size === 1) {
+        service = services.values().next().value;
+    } else if (!service && services.size > 1) {
+        const selected = await selectRepository('Commit working changes from which repository?');
+        if (!selected) return;
+        service = services.get(selected.path);
+    }
+
+    if (!service) {
+        showWarning('No git repository available');
+        return;
+    }
+
+    const excluded = new Set(service.getExcludedFiles());
+    const files = service.getChangedFiles().filter(file => !excluded.has(file.relativePath));
+    const skipped = service.getChangedFiles().length - files.length;
+
+    if (files.length === 0) {
+        showWarning(skipped > 0
+            ? `No working changes to commit: all ${skipped} changed file(s) are in changelists excluded from commit`
+            : 'No working changes to commit');
+        return;
+    }
+
+    const inputBox = scmProviders.get(service.repository.path)?.getSourceControl().inputBox;
+    const message = await promptInput({
+        prompt: 'Enter commit message',
+        placeholder: 'Commit message',
+        value: inputBox?.value,
+        validateInput: (value) => {
+            if (!value.trim()) return 'Message cannot be empty';
+            return undefined;
+        }
+    });
+
+    if (!message) return;
+
+    const skippedNote = skipped > 0 ? ` ${skipped} file(s) in changelists excluded from commit are left out.` : '';
+    const config = getConfig();
+    if (config.confirmBeforeCommit) {
+        const proceed = await promptConfirm(`Commit ${files.length} working change(s)?${skippedNote}`);
+        if (!proceed) return;
+    }
+
+    try {
+        await service.commitWorkingChanges(message.trim());
+        if (inputBox) {
+            inputBox.value = '';
+        }
+        showInfo(`Committed ${files.length} file(s).${skippedNote}`);
+    } catch (error) {
+        showError(`Commit failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function toggleExcludeFromCommit(arg: unknown): Promise<void> {
+    let service = getServiceFromArg(arg);
+    let changelistId = getChangelistIdFromArg(arg);
+
+    if (!service || !changelistId) {
+        const { selectedService, selectedChangelist } = await selectChangelistFromAllRepos('Select changelist to exclude from or include in commits');
+        if (!selectedService || !selectedChangelist) {
+            return;
+        }
+        service = selectedService;
+        changelistId = selectedChangelist.id;
+    }
+
+    const changelist = service.getChangelist(changelistId);
+    if (!changelist || changelist.isDefault) {
+        showError('Changelist not found');
+        return;
+    }
+
+    try {
+        const exclude = !changelist.excludeFromCommit;
+        await service.setExcludeFromCommit(changelist.id, exclude);
+        showInfo(exclude
+            ? `Working files in ${changelist.label} are now left out of commits`
+            : `Working files in ${changelist.label} are committed again`);
+    } catch (error) {
+        showError(`Update failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function installCommitHook(): Promise<void> {
+    let service: ChangelistService | undefined;
+
+    if (services.size === 1) {
+        service = services.values().next().value;
+    } else if (services.size > 1) {
+        const selected = await selectRepository('Install the pre-commit hook in which repository?');
+        if (!selected) {
+            return;
+        }
+        service = services.get(selected.path);
+    }
+
+    if (!service) {
+        showWarning('No git repository available');
+        return;
+    }
+
+    try {
+        const foreign = await service.findForeignCommitHook();
+        if (foreign && !(await promptConfirm(`${foreign} already exists. Replace it?`))) {
+            return;
+        }
+
+        const hookPath = await service.installCommitHook();
+        showInfo(`Installed pre-commit hook: ${hookPath}. Commits that stage files of changelists excluded from commit are rejected.`);
+    } catch (error) {
+        showError(`Installing the hook failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Commit recorded on a changelist, from a tree item
+ */
+function getCommitFromArg(arg: unknown): { service: ChangelistService; commit: ChangelistCommit } | undefined {
+    if (!arg || typeof arg !== 'object') {
+        return undefined;
+    }
+
+    const commit = (arg as Record<string, unknown>).commit as ChangelistCommit | undefined;
+    const service = getServiceFromArg(arg);
+    return commit?.sha && service ? { service, commit } : undefined;
+}
+
+/**
+ * Pick one of the commits recorded on the changelists (archived ones included) of all repositories
+ */
+async function pickChangelistCommit(placeholder: string): Promise<{ service: ChangelistService; commit: ChangelistCommit } | undefined> {
+    const items = [...services.values()].flatMap(service =>
+        [...service.getChangelists(), ...service.getArchivedChangelists()].flatMap(cl =>
+            (cl.commits ?? []).map(commit => ({
+                label: commit.subject || commit.sha.slice(0, 7),
+                description: [commit.sha.slice(0, 7), cl.label, services.size > 1 ? service.repository.name : undefined]
+                    .filter(Boolean)
+                    .join(' • '),
+                service,
+                commit
+            }))
+        )
+    ).sort((a, b) => b.commit.committedAt - a.commit.committedAt);
+
+    if (items.length === 0) {
+        showInfo('No commits recorded on changelists yet');
+        return undefined;
+    }
+
+    const selected = await promptSelect(items, { placeholder });
+    if (!selected || Array.isArray(selected)) {
+        return undefined;
     }
+    return selected;
 }
 
-async function applyAllAndStage(arg: unknown): Promise<void> {
-    const service = getServiceFromArg(arg);
-    const changelistId = getChangelistIdFromArg(arg);
-
-    if (!service || !changelistId) {
-        showWarning('No changelist selected');
+/**
+ * Show the changes of a commit made from a changelist, one file at a time
+ */
+async function openCommit(arg: unknown): Promise<void> {
+    const picked = getCommitFromArg(arg) ?? await pickChangelistCommit('Select a commit to open');
+    if (!picked) {
         return;
     }
 
-    const changelist = service.getChangelist(changelistId);
-    if (!changelist) {
-        showError('Changelist not found');
-        return;
-    }
+    const { service, commit } = picked;
+    const repoPath = service.repository.path;
+    const short = commit.sha.slice(0, 7);
 
-    if (changelist.shelvedFiles.length === 0) {
-        showWarning('No snapshots in this changelist');
-        return;
-    }
+    try {
+        const parent = await service.getParentRef(commit.sha);
+        const changes = await service.getCommitChanges(parent, commit.sha);
+        if (changes.length === 0) {
+            showInfo(`${short} has no file changes`);
+            return;
+        }
 
-    const proceed = await promptConfirm(
-        `Apply & stage all ${changelist.shelvedFiles.length} file(s) from "${changelist.label}"?`
-    );
+        let change = changes[0];
+        if (changes.length > 1) {
+            const selected = await promptSelect(
+                changes.map(c => ({ label: path.basename(c.relativePath), description: `${c.status} • ${c.relativePath}`, change: c })),
+                { placeholder: `${short} ${commit.subject}: select a file` }
+            );
+            if (!selected || Array.isArray(selected)) {
+                return;
+            }
+            change = selected.change;
+        }
 
-    if (proceed) {
-        try {
-            await service.applyAllAndStage(changelistId);
-            showInfo(`Applied & staged all files from ${changelist.label}`);
-        } catch (error) {
-            showError(`Apply failed: ${error instanceof Error ? error.message : String(error)}`);
+        const before = await service.getCommittedBytes(change.relativePath, parent);
+        const after = await service.getCommittedBytes(change.relativePath, commit.sha);
+        if ([before, after].some(content => content && isBinaryContent(content))) {
+            await showBinaryPreview(change.relativePath, [
+                { label: `${short}^`, content: before },
+                { label: short, content: after }
+            ]);
+            return;
         }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            createGitUri(change.relativePath, parent, repoPath),
+            createGitUri(change.relativePath, commit.sha, repoPath),
+            `${path.basename(change.relativePath)} (${short}^ ↔ ${short})`
+        );
+    } catch (error) {
+        showError(`Open commit failed: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
 
-// ========== Commit Operations ==========
+/**
+ * Put the undoing of a commit made from a changelist into a new changelist, without touching working files
+ */
+async function revertCommit(arg: unknown): Promise<void> {
+    const picked = getCommitFromArg(arg) ?? await pickChangelistCommit('Select a commit to revert into a new changelist');
+    if (!picked) {
+        return;
+    }
 
-async function commitChangelist(arg: unknown): Promise<void> {
-    const service = getServiceFromArg(arg);
-    const changelistId = getChangelistIdFromArg(arg);
+    const { service, commit } = picked;
+    const short = commit.sha.slice(0, 7);
 
-    if (!service || !changelistId) {
-        showError('No changelist selected');
+    const label = await promptInput({
+        prompt: `Name of the changelist that will undo ${short}`,
+        value: `Revert "${commit.subject || short}"`,
+        validateInput: (value) => {
+            if (!value.trim()) {
+                return 'Name cannot be empty';
+            }
+            return undefined;
+        }
+    });
+    if (!label?.trim()) {
         return;
     }
 
-    const changelist = service.getChangelist(changelistId);
-    if (!changelist) {
-        showError('Changelist not found');
-        return;
+    try {
+        const { changelist, conflicts } = await service.revertCommitToChangelist(commit.sha, label.trim());
+        if (conflicts > 0) {
+            showWarning(
+                `Reverted ${short} into ${changelist.label} with ${conflicts} conflict(s): ` +
+                'files changed again since are merged with conflict markers, or left out when they cannot be merged'
+            );
+        } else {
+            showInfo(`Reverted ${short} into ${changelist.label} (${changelist.shelvedFiles.length} snapshot(s))`);
+        }
+    } catch (error) {
+        showError(`Revert failed: ${error instanceof Error ? error.message : String(error)}`);
     }
+}
 
-    if (changelist.isDefault) {
-        showWarning('Use "Commit Working Changes" for the default changelist');
+/**
+ * Turn a commit of the current branch into a changelist, optionally undoing the commit when it is the tip
+ */
+async function createChangelistFromCommit(arg: unknown): Promise<void> {
+    const service = getServiceFromArg(arg);
+    if (!service) {
+        if (services.size > 1) {
+            const selected = await selectRepository('Create the changelist in which repository?');
+            if (!selected) {
+                return;
+            }
+            return createChangelistFromCommit({ repoPath: selected.path });
+        }
+        showWarning('No git repository available');
         return;
     }
 
-    if (changelist.shelvedFiles.length === 0) {
-        showWarning('No shelved files to commit');
+    const commits = await service.getRecentCommits(100);
+    if (commits.length === 0) {
+        showInfo('No commits yet');
         return;
     }
 
-    const config = getConfig();
-    if (config.confirmBeforeCommit) {
-        const proceed = await promptConfirm(
-            `Commit ${changelist.shelvedFiles.length} shelved file(s) from "${changelist.label}"?`
-        );
-        if (!proceed) return;
+    const selected = await promptSelect(
+        commits.map((commit, index) => ({
+            label: commit.subject || commit.sha.slice(0, 7),
+            description: [commit.sha.slice(0, 7), commit.author, new Date(commit.committedAt).toLocaleString()].join(' • '),
+            commit,
+            index
+        })),
+        { placeholder: 'Select the commit to turn into a changelist' }
+    );
+    if (!selected || Array.isArray(selected)) {
+        return;
     }
 
-    const message = await promptInput({
-        prompt: 'Enter commit message',
-        placeholder: 'Commit message',
+    const label = await promptInput({
+        prompt: 'Name of the new changelist',
+        value: selected.commit.subject || selected.commit.sha.slice(0, 7),
         validateInput: (value) => {
-            if (!value.trim()) return 'Message cannot be empty';
+            if (!value.trim()) {
+                return 'Name cannot be empty';
+            }
             return undefined;
         }
     });
+    if (!label?.trim()) {
+        return;
+    }
 
-    if (!message) return;
+    // Only the tip of the branch can be undone, and not when it is the first commit
+    let reset = false;
+    if (selected.index === 0 && commits.length > 1) {
+        const choice = await promptSelect(
+            [
+                { label: 'Keep the Commit', description: 'Only create the changelist', reset: false },
+                { label: 'Undo the Commit', description: 'Also run git reset --soft HEAD~1; the changes stay staged', reset: true }
+            ],
+            { placeholder: `${selected.commit.sha.slice(0, 7)} is the tip of the branch` }
+        );
+        if (!choice || Array.isArray(choice)) {
+            return;
+        }
+        reset = choice.reset;
+    }
 
     try {
-        await service.commitChangelist(changelistId, message.trim());
-        showInfo(`Committed ${changelist.shelvedFiles.length} file(s) from ${changelist.label}`);
+        const changelist = await service.createChangelistFromCommit(selected.commit.sha, label.trim(), reset);
+        showInfo(`Created ${changelist.label} with ${changelist.shelvedFiles.length} snapshot(s)` +
+            (reset ? `; ${selected.commit.sha.slice(0, 7)} was undone` : ''));
     } catch (error) {
-        showError(`Commit failed: ${error instanceof Error ? error.message : String(error)}`);
+        showError(`Create from commit failed: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
 
-async function commitWorkingChanges(): Promise<void> {
-    // If multiple repos, ask user to select
-    let service: ChangelistService | undefined;
-
-    if (services.size === 1) {
-        service = services.values().next().value;
-    } else if (services.size > 1) {
-        const selected = await selectRepository('Commit working changes from which repository?');
-        if (!selected) return;
-        service = services.get(selected.path);
-    }
-
+/**
+ * Capture the changes of a branch or ref range as snapshots in a new changelist
+ */
+async function createChangelistFromRefDiff(arg: unknown): Promise<void> {
+    const service = getServiceFromArg(arg);
     if (!service) {
+        if (services.size > 1) {
+            const selected = await selectRepository('Create the changelist in which repository?');
+            if (!selected) {
+                return;
+            }
+            return createChangelistFromRefDiff({ repoPath: selected.path });
+        }
         showWarning('No git repository available');
         return;
     }
 
-    const files = service.getChangedFiles();
-
-    if (files.length === 0) {
-        showWarning('No working changes to commit');
+    const range = await promptInput({
+        prompt: 'Refs to compare: "a...b" diffs b against its merge base with a, "a..b" diffs b against a, a single ref means HEAD...ref',
+        placeholder: 'main...feature-x',
+        validateInput: (value) => {
+            if (!value.trim()) {
+                return 'Enter a ref or a range';
+            }
+            return undefined;
+        }
+    });
+    if (!range?.trim()) {
         return;
     }
 
-    const message = await promptInput({
-        prompt: 'Enter commit message',
-        placeholder: 'Commit message',
+    const label = await promptInput({
+        prompt: 'Name of the new changelist',
+        value: range.trim(),
         validateInput: (value) => {
-            if (!value.trim()) return 'Message cannot be empty';
+            if (!value.trim()) {
+                return 'Name cannot be empty';
+            }
             return undefined;
         }
     });
-
-    if (!message) return;
-
-    const config = getConfig();
-    if (config.confirmBeforeCommit) {
-        const proceed = await promptConfirm(`Commit ${files.length} working change(s)?`);
-        if (!proceed) return;
+    if (!label?.trim()) {
+        return;
     }
 
     try {
-        await service.commitWorkingChanges(message.trim());
-        showInfo(`Committed ${files.length} file(s)`);
+        const changelist = await service.createChangelistFromRefDiff(range, label.trim());
+        showInfo(`Created ${changelist.label} with ${changelist.shelvedFiles.length} snapshot(s); use Apply & Stage to take them over`);
     } catch (error) {
-        showError(`Commit failed: ${error instanceof Error ? error.message : String(error)}`);
+        showError(`Create from ref diff failed: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
 
@@ -828,20 +1855,33 @@ async function openDiff(arg: unknown): Promise<void> {
     const workingUri = vscode.Uri.file(absolutePath);
 
     const fileStatus = getFileStatusFromArg(arg);
+    // A renamed file is compared with its old path at HEAD
+    const originalPath = getOriginalPathFromArg(arg);
+    const headPath = originalPath ?? filePath;
+
+    if (fs.existsSync(absolutePath) && fs.statSync(absolutePath).isFile() && isBinaryContent(fs.readFileSync(absolutePath))) {
+        const headBytes = fileStatus === 'untracked' ? undefined : await service?.getCommittedBytes(headPath);
+        await showBinaryPreview(filePath, [
+            { label: 'HEAD', content: headBytes },
+            { label: 'Working Tree', content: fs.readFileSync(absolutePath) }
+        ]);
+        return;
+    }
 
     if (fileStatus === 'untracked') {
         await vscode.window.showTextDocument(workingUri);
         return;
     }
 
-    const headUri = createGitUri(filePath, 'HEAD', repoPath);
+    const headUri = createGitUri(headPath, 'HEAD', repoPath);
+    const fileName = getDiffFileName({ relativePath: filePath, originalPath });
 
     try {
         await vscode.commands.executeCommand(
             'vscode.diff',
             headUri,
             workingUri,
-            `${path.basename(filePath)} (HEAD ↔ Working Tree)`
+            `${fileName} (HEAD ↔ Working Tree)`
         );
     } catch (error) {
         log(`Diff failed: ${error}`, 'warn');
@@ -853,33 +1893,49 @@ async function previewShelved(arg: unknown): Promise<void> {
     const service = getServiceFromArg(arg);
     const { shelvedFile, changelistId } = getShelvedFileInfoFromArg(arg);
 
-    if (!shelvedFile || !changelistId) {
+    if (!service || !shelvedFile || !changelistId) {
         showWarning('No snapshot selected');
         return;
     }
 
-    if (!shelvedFile.originalContent) {
+    const changelist = service.getChangelist(changelistId);
+    const changelistName = changelist?.label || 'Snapshot';
+
+    if (shelvedFile.isBinary) {
+        await showBinaryPreview(shelvedFile.relativePath, [
+            { label: 'HEAD', content: await service.getHeadBytes(shelvedFile) },
+            { label: changelistName, content: await service.getSnapshotBytes(shelvedFile) }
+        ]);
+        return;
+    }
+
+    const content = await service.getSnapshotContent(shelvedFile);
+    if (!content) {
         showWarning('No content available for this snapshot');
         return;
     }
 
-    const repoPath = shelvedFile.repoPath || service?.repository.path || getRepoPathFromArg(arg);
+    const repoPath = shelvedFile.repoPath || service.repository.path;
 
     // Create URIs for diff view
-    // Left side: HEAD version (original)
+    // Left side: HEAD version the snapshot was taken against (current HEAD for snapshots that did not record it)
     // Right side: Snapshot version (saved)
-    const headUri = createGitUri(shelvedFile.relativePath, 'HEAD', repoPath);
+    const recordedHead = shelvedFile.headHash || shelvedFile.headContent !== undefined
+        ? await service.getHeadContent(shelvedFile)
+        : undefined;
+    const headUri = recordedHead !== undefined
+        ? createSnapshotUri(shelvedFile.originalPath ?? shelvedFile.relativePath, `${changelistId}_head`, recordedHead, shelvedFile.shelvedAt, repoPath)
+        : createGitUri(shelvedFile.originalPath ?? shelvedFile.relativePath, 'HEAD', repoPath);
+    const headLabel = recordedHead !== undefined && service.isSnapshotStale(changelistId, shelvedFile) ? 'HEAD when shelved' : 'HEAD';
     const snapshotUri = createSnapshotUri(
         shelvedFile.relativePath,
         changelistId,
-        shelvedFile.originalContent,
+        content,
         shelvedFile.shelvedAt,
         repoPath
     );
 
-    const fileName = path.basename(shelvedFile.relativePath);
-    const changelist = service?.getChangelist(changelistId);
-    const changelistName = changelist?.label || 'Snapshot';
+    const fileName = getDiffFileName(shelvedFile);
 
     try {
         // Show diff: HEAD (left) vs Snapshot (right)
@@ -887,13 +1943,13 @@ async function previewShelved(arg: unknown): Promise<void> {
             'vscode.diff',
             headUri,
             snapshotUri,
-            `${fileName} (HEAD ↔ ${changelistName})`
+            `${fileName} (${headLabel} ↔ ${changelistName})`
         );
     } catch (error) {
         log(`Diff failed: ${error}`, 'warn');
         // Fallback: just show the snapshot content
         const doc = await vscode.workspace.openTextDocument({
-            content: shelvedFile.originalContent,
+            content,
             language: getLanguageId(shelvedFile.relativePath)
         });
         await vscode.window.showTextDocument(doc);
@@ -912,7 +1968,7 @@ async function revertFile(arg: unknown): Promise<void> {
     const config = getConfig();
     if (config.confirmBeforeRevert) {
         const proceed = await promptConfirm(
-            `Revert changes to "${path.basename(filePath)}"? This cannot be undone.`
+            `Revert changes to "${path.basename(filePath)}"? "Undo Last Changelist Operation" can bring them back.`
         );
         if (!proceed) return;
     }
@@ -925,6 +1981,28 @@ async function revertFile(arg: unknown): Promise<void> {
     }
 }
 
+/**
+ * Show a plain-text summary of a binary file instead of a text diff
+ */
+async function showBinaryPreview(filePath: string, sides: Array<{ label: string; content?: Buffer }>): Promise<void> {
+    const lines = [`Binary file: ${filePath}`, ''];
+
+    for (const side of sides) {
+        const summary = side.content
+            ? `${formatSize(side.content.length)}  sha256 ${BlobStore.hash(side.content).substring(0, 12)}`
+            : '(does not exist)';
+        lines.push(`${side.label}: ${summary}`);
+    }
+
+    lines.push('', 'Binary files cannot be shown as a text diff. Restoring a snapshot writes back its exact bytes.');
+
+    const doc = await vscode.workspace.openTextDocument({
+        content: lines.join('\n'),
+        language: 'plaintext'
+    });
+    await vscode.window.showTextDocument(doc, { preview: true });
+}
+
 // ========== Chat Integration ==========
 
 async function addToChat(arg: unknown): Promise<void> {
@@ -964,8 +2042,9 @@ async function addToChat(arg: unknown): Promise<void> {
         const fileName = path.basename(shelvedFile.relativePath);
         snapshotPath = path.join(tempDir, `${changelist.label.replace(/[<>:"/\\|?*]/g, '_')}_${fileName}`);
 
-        if (shelvedFile.originalContent) {
-            fs.writeFileSync(snapshotPath, shelvedFile.originalContent, 'utf8');
+        const content = await service.getSnapshotBytes(shelvedFile);
+        if (content) {
+            fs.writeFileSync(snapshotPath, content);
         } else {
             showError('No content available for this snapshot');
             return;
@@ -1032,6 +2111,11 @@ async function compareWith(arg: unknown): Promise<void> {
         return;
     }
 
+    if (shelvedFile.isBinary) {
+        showWarning('Binary snapshots cannot be compared as text');
+        return;
+    }
+
     const repoPath = service.repository.path;
 
     // Get all versions of this file
@@ -1090,7 +2174,7 @@ async function compareWith(arg: unknown): Promise<void> {
     const currentSnapshotUri = createSnapshotUri(
         shelvedFile.relativePath,
         changelistId,
-        shelvedFile.originalContent || '',
+        await service.getSnapshotContent(shelvedFile) || '',
         shelvedFile.shelvedAt,
         repoPath
     );
@@ -1099,7 +2183,7 @@ async function compareWith(arg: unknown): Promise<void> {
     let leftLabel: string;
 
     if (selected.type === 'head') {
-        leftUri = createGitUri(shelvedFile.relativePath, 'HEAD', repoPath);
+        leftUri = createGitUri(shelvedFile.originalPath ?? shelvedFile.relativePath, 'HEAD', repoPath);
         leftLabel = 'HEAD';
     } else if (selected.type === 'working') {
         leftUri = vscode.Uri.file(workingPath);
@@ -1108,7 +2192,7 @@ async function compareWith(arg: unknown): Promise<void> {
         leftUri = createSnapshotUri(
             selected.version.shelvedFile.relativePath,
             selected.version.changelist.id,
-            selected.version.shelvedFile.originalContent || '',
+            await service.getSnapshotContent(selected.version.shelvedFile) || '',
             selected.version.timestamp,
             repoPath
         );
@@ -1117,7 +2201,7 @@ async function compareWith(arg: unknown): Promise<void> {
         return;
     }
 
-    const fileName = path.basename(shelvedFile.relativePath);
+    const fileName = getDiffFileName(shelvedFile);
 
     try {
         await vscode.commands.executeCommand(
@@ -1146,6 +2230,11 @@ async function compareAllVersions(arg: unknown): Promise<void> {
         return;
     }
 
+    if (shelvedFile.isBinary) {
+        showWarning('Binary snapshots cannot be compared as text');
+        return;
+    }
+
     const repoPath = service.repository.path;
 
     // Get all versions of this file
@@ -1179,7 +2268,7 @@ async function compareAllVersions(arg: unknown): Promise<void> {
     const firstUri = createSnapshotUri(
         first.version.shelvedFile.relativePath,
         first.version.changelist.id,
-        first.version.shelvedFile.originalContent || '',
+        await service.getSnapshotContent(first.version.shelvedFile) || '',
         first.version.timestamp,
         repoPath
     );
@@ -1187,7 +2276,7 @@ async function compareAllVersions(arg: unknown): Promise<void> {
     const secondUri = createSnapshotUri(
         second.version.shelvedFile.relativePath,
         second.version.changelist.id,
-        second.version.shelvedFile.originalContent || '',
+        await service.getSnapshotContent(second.version.shelvedFile) || '',
         second.version.timestamp,
         repoPath
     );
@@ -1206,6 +2295,140 @@ async function compareAllVersions(arg: unknown): Promise<void> {
     }
 }
 
+// ========== Operation Journal ==========
+
+/**
+ * Undo the most recent changelist operation across all repositories (or redo the most recently undone one)
+ */
+async function undoOperation(redo = false): Promise<void> {
+    const candidates = Array.from(services.values())
+        .map(service => ({ service, entry: redo ? service.getRedoOperations()[0] : service.getUndoOperations()[0] }))
+        .filter(candidate => candidate.entry !== undefined)
+        .sort((a, b) => redo
+            ? (b.entry.undoneAt ?? 0) - (a.entry.undoneAt ?? 0)
+            : b.entry.timestamp - a.entry.timestamp);
+
+    if (candidates.length === 0) {
+        showInfo(redo ? 'Nothing to redo' : 'Nothing to undo');
+        return;
+    }
+
+    const { service, entry } = candidates[0];
+    const action = redo ? 'Redo' : 'Undo';
+
+    // Changelists changed since would lose those changes, so they block the operation
+    const changed = service.getJournalChangelistConflicts(redo);
+    if (changed.length > 0) {
+        showError(`Cannot ${action.toLowerCase()} "${entry.label}": ${changed.join(', ')} changed since. Undo those changes first`);
+        return;
+    }
+
+    const conflicts = await service.getJournalConflicts(redo);
+    if (conflicts.length > 0) {
+        const proceed = await promptConfirm(
+            `${conflicts.length} file(s) changed since "${entry.label}" (${conflicts.join(', ')}). ${action} anyway and overwrite them?`
+        );
+        if (!proceed) {
+            return;
+        }
+    }
+
+    try {
+        await (redo ? service.redoOperation() : service.undoLastOperation());
+        showInfo(`${redo ? 'Redid' : 'Undid'}: ${entry.label}`);
+    } catch (error) {
+        showError(`${action} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+// ========== Remote Sync ==========
+
+async function publishChangelist(arg: unknown): Promise<void> {
+    const service = getServiceFromArg(arg);
+    const changelistId = getChangelistIdFromArg(arg);
+
+    if (!service || !changelistId) {
+        if (services.size > 0) {
+            const { selectedService, selectedChangelist } = await selectChangelistFromAllRepos('Select changelist to publish');
+            if (!selectedService || !selectedChangelist) {
+                return;
+            }
+            return publishChangelist({ repoPath: selectedService.repository.path, changelist: selectedChangelist });
+        }
+        showWarning('No git repository available');
+        return;
+    }
+
+    const changelist = service.getChangelist(changelistId);
+    if (!changelist) {
+        showError('Changelist not found');
+        return;
+    }
+
+    if (!ensureGitRefsStorage()) {
+        return;
+    }
+
+    const remote = getConfig().syncRemote;
+    try {
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Publishing "${changelist.label}" to ${remote}...` },
+            () => service.publishChangelist(changelistId, remote)
+        );
+        showInfo(`Published changelist "${changelist.label}" to ${remote}`);
+    } catch (error) {
+        showError(`Publish failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function fetchChangelists(): Promise<void> {
+    let service: ChangelistService | undefined;
+
+    if (services.size === 1) {
+        service = services.values().next().value;
+    } else if (services.size > 1) {
+        const selected = await selectRepository('Fetch changelists into which repository?');
+        if (!selected) {
+            return;
+        }
+        service = services.get(selected.path);
+    }
+
+    if (!service) {
+        showWarning('No git repository available');
+        return;
+    }
+
+    if (!ensureGitRefsStorage()) {
+        return;
+    }
+
+    const remote = getConfig().syncRemote;
+    try {
+        const changed = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Fetching changelists from ${remote}...` },
+            () => service!.fetchChangelists(remote)
+        );
+        showInfo(changed > 0
+            ? `Fetched ${changed} new or updated changelist(s) from ${remote}`
+            : `Changelists are up to date with ${remote}`);
+    } catch (error) {
+        showError(`Fetch failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Publishing and fetching work on git refs, so the gitRefs storage backend must be active
+ */
+function ensureGitRefsStorage(): boolean {
+    if (getConfig().snapshotStorage === 'gitRefs') {
+        return true;
+    }
+
+    showWarning('Sharing changelists requires the "smartChangelists.snapshotStorage" setting to be "gitRefs"');
+    return false;
+}
+
 // ========== Other Operations ==========
 
 async function refreshAll(): Promise<void> {
@@ -1219,7 +2442,7 @@ async function exportChangelists(): Promise<void> {
     const allChangelists: Array<{ label: string; shelvedFiles: ShelvedFile[] }> = [];
 
     for (const service of services.values()) {
-        const exportData = service.exportChangelists();
+        const exportData = await service.exportChangelists();
         allChangelists.push(...exportData.changelists);
     }
 
@@ -1377,6 +2600,28 @@ function getRepoPathFromArg(arg: unknown): string | undefined {
     return undefined;
 }
 
+function getOriginalPathFromArg(arg: unknown): string | undefined {
+    if (!arg || typeof arg !== 'object') {
+        return undefined;
+    }
+
+    const obj = arg as Record<string, unknown>;
+
+    if (obj.file && typeof obj.file === 'object') {
+        const file = obj.file as { originalPath?: string };
+        return file.originalPath;
+    }
+
+    return undefined;
+}
+
+/**
+ * File name for a diff title, as "old → new" for a renamed file
+ */
+function getDiffFileName(file: { relativePath: string; originalPath?: string }): string {
+    return formatRenamedPath(path.basename(file.relativePath), file.originalPath && path.basename(file.originalPath));
+}
+
 function getFileStatusFromArg(arg: unknown): string | undefined {
     if (!arg || typeof arg !== 'object') return undefined;
 
@@ -1390,17 +2635,19 @@ function getFileStatusFromArg(arg: unknown): string | undefined {
     return undefined;
 }
 
-function getShelvedFileFromArg(arg: unknown): { changelistId?: string; relativePath?: string } {
+function getShelvedFileFromArg(arg: unknown): { changelistId?: string; relativePath?: string; revisionAt?: number } {
     if (!arg || typeof arg !== 'object') return {};
 
     const obj = arg as Record<string, unknown>;
 
     if (obj.shelvedFile && typeof obj.shelvedFile === 'object') {
-        const shelvedFile = obj.shelvedFile as { relativePath?: string };
+        const shelvedFile = obj.shelvedFile as { relativePath?: string; shelvedAt?: number };
         const changelistId = obj.changelistId as string | undefined;
         return {
             changelistId,
-            relativePath: shelvedFile.relativePath
+            relativePath: shelvedFile.relativePath,
+            // Older revisions are addressed by their timestamp
+            revisionAt: obj.itemType === 'shelved-revision' ? shelvedFile.shelvedAt : undefined
         };
     }
 
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BlobStore } from '../../BlobStore';
+import { Changelist } from '../../types';
+
+suite('Blob Store Test Suite', () => {
+    let tempDir: string;
+    let store: BlobStore;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-changelists-'));
+        store = new BlobStore(path.join(tempDir, 'blobs'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    /** Date blobs back so the prune grace period no longer protects them */
+    function age(hash: string): void {
+        const old = new Date(Date.now() - 10 * 60 * 1000);
+        fs.utimesSync(path.join(tempDir, 'blobs', hash.substring(0, 2), hash.substring(2)), old, old);
+    }
+
+    function makeChangelist(contentHash: string): Changelist {
+        return {
+            id: 'cl-1',
+            label: 'Feature',
+            shelvedFiles: [{ relativePath: 'a.txt', status: 'modified', patch: '', contentHash, shelvedAt: 1 }],
+            isDefault: false,
+            isActive: false
+        };
+    }
+
+    test('Identical content is stored once and read back byte for byte', async () => {
+        const bytes = Buffer.from([0x00, 0xff, 0x10, 0x0a]);
+
+        const first = await store.put(bytes);
+        const second = await store.put(Buffer.from(bytes));
+
+        assert.strictEqual(first, second);
+        assert.strictEqual(first, BlobStore.hash(bytes));
+        assert.ok((await store.get(first))?.equals(bytes));
+    });
+
+    test('Prune drops unreferenced blobs but keeps recent ones', async () => {
+        const kept = await store.put('kept');
+        const dropped = await store.put('dropped');
+        const recent = await store.put('recent');
+        age(kept);
+        age(dropped);
+
+        const removed = await store.prune(new Set([kept]));
+
+        assert.strictEqual(removed, 1);
+        assert.ok(store.has(kept));
+        assert.ok(!store.has(dropped));
+        assert.ok(store.has(recent));
+    });
+
+    test('Sync keeps referenced and retained content and prunes at most once per interval', async () => {
+        const referenced = await store.put('referenced');
+        const retained = await store.put('retained');
+        const first = await store.put('first');
+        [referenced, retained, first].forEach(age);
+
+        await store.sync([makeChangelist(referenced)], new Set([retained]));
+        assert.ok(store.has(referenced));
+        assert.ok(store.has(retained));
+        assert.ok(!store.has(first));
+
+        const second = await store.put('second');
+        age(second);
+        await store.sync([makeChangelist(referenced)]);
+        assert.ok(store.has(second));
+    });
+});
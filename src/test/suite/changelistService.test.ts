@@ -0,0 +1,406 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { ChangelistService } from '../../ChangelistService';
+
+suite('Changelist Service Test Suite', () => {
+    let tempDir: string;
+    let repoPath: string;
+    let git: SimpleGit;
+    let services: ChangelistService[];
+
+    setup(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-changelists-'));
+        repoPath = path.join(tempDir, 'repo');
+        fs.mkdirSync(repoPath);
+        services = [];
+
+        git = simpleGit(repoPath);
+        await git.init();
+        await git.addConfig('user.name', 'Test');
+        await git.addConfig('user.email', 'test@example.com');
+    });
+
+    teardown(() => {
+        services.forEach(service => service.dispose());
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    /** Extension context keeping workspace state in memory and storage in the temp dir */
+    function makeContext(): vscode.ExtensionContext {
+        const values = new Map<string, unknown>();
+        return {
+            workspaceState: {
+                keys: () => [...values.keys()],
+                get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+                // Stored as JSON, like the real workspace state
+                update: async (key: string, value: unknown) => {
+                    values.set(key, JSON.parse(JSON.stringify(value)));
+                }
+            },
+            storageUri: vscode.Uri.file(path.join(tempDir, 'storage')),
+            globalStorageUri: vscode.Uri.file(path.join(tempDir, 'global-storage')),
+            subscriptions: []
+        } as unknown as vscode.ExtensionContext;
+    }
+
+    async function startService(): Promise<ChangelistService> {
+        const service = new ChangelistService(makeContext(), { path: repoPath, name: 'repo', isSubmodule: false });
+        services.push(service);
+        await service.initialize();
+        await service.refresh();
+        return service;
+    }
+
+    function write(files: Record<string, string>): void {
+        for (const [relativePath, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(repoPath, relativePath)), { recursive: true });
+            fs.writeFileSync(path.join(repoPath, relativePath), content);
+        }
+    }
+
+    function read(relativePath: string): string {
+        return fs.readFileSync(path.join(repoPath, relativePath), 'utf8');
+    }
+
+    async function commit(files: Record<string, string>, message = 'Initial commit'): Promise<void> {
+        write(files);
+        await git.add('.');
+        await git.commit(message);
+    }
+
+    /** Ten numbered lines, with some of them replaced */
+    function numbered(replacements: Record<number, string> = {}): string {
+        return Array.from({ length: 10 }, (_, i) => `${replacements[i] ?? `line ${i}`}\n`).join('');
+    }
+
+    test('Restoring into a changed working file merges both changes', async () => {
+        await commit({ 'a.txt': numbered() });
+        write({ 'a.txt': numbered({ 2: 'snapshot' }) });
+        const service = await startService();
+        const changelist = await service.createChangelist('Feature');
+        await service.shelveFile('a.txt', changelist.id);
+
+        write({ 'a.txt': numbered({ 8: 'working' }) });
+        const result = await service.unshelveFile(changelist.id, 'a.txt');
+
+        assert.deepStrictEqual(result, { relativePath: 'a.txt', merged: true, conflicts: 0 });
+        assert.strictEqual(read('a.txt'), numbered({ 2: 'snapshot', 8: 'working' }));
+    });
+
+    test('Overlapping changes are restored between conflict markers and not staged', async () => {
+        await commit({ 'a.txt': numbered() });
+        write({ 'a.txt': numbered({ 2: 'snapshot' }) });
+        const service = await startService();
+        const changelist = await service.createChangelist('Feature');
+        await service.shelveFile('a.txt', changelist.id);
+
+        write({ 'a.txt': numbered({ 2: 'working' }) });
+        const result = await service.applyAndStage(changelist.id, 'a.txt');
+
+        assert.strictEqual(result.conflicts, 1);
+        assert.ok(read('a.txt').includes('<<<<<<< Working file\nworking\n=======\nsnapshot\n>>>>>>> Snapshot (Feature)\n'));
+        assert.strictEqual((await git.diff(['--cached', '--name-only'])).trim(), '');
+    });
+
+    test('A renamed file is restored as a rename, with edits made to the old path merged', async () => {
+        await commit({ 'a.txt': numbered() });
+        await git.mv('a.txt', 'b.txt');
+        write({ 'b.txt': numbered({ 3: 'renamed' }) });
+        const service = await startService();
+        const changelist = await service.createChangelist('Feature');
+
+        assert.deepStrictEqual(await service.shelveAndRevertFiles(['b.txt'], changelist.id), []);
+        const snapshot = service.getChangelist(changelist.id)!.shelvedFiles[0];
+        assert.strictEqual(snapshot.status, 'renamed');
+        assert.strictEqual(snapshot.originalPath, 'a.txt');
+        assert.ok(!fs.existsSync(path.join(repoPath, 'b.txt')));
+
+        write({ 'a.txt': numbered({ 8: 'working' }) });
+        const result = await service.unshelveFile(changelist.id, 'b.txt');
+
+        assert.deepStrictEqual(result, { relativePath: 'b.txt', merged: true, conflicts: 0 });
+        assert.strictEqual(read('b.txt'), numbered({ 3: 'renamed', 8: 'working' }));
+        assert.ok(!fs.existsSync(path.join(repoPath, 'a.txt')));
+        assert.strictEqual((await git.raw(['status', '--porcelain'])).trim(), 'RM a.txt -> b.txt');
+    });
+
+    test('The old path of a rename is kept when it changed since the snapshot', async () => {
+        await commit({ 'a.txt': numbered() });
+        await git.mv('a.txt', 'b.txt');
+        write({ 'b.txt': numbered({ 3: 'renamed' }) });
+        const service = await startService();
+        const changelist = await service.createChangelist('Feature');
+        await service.shelveAndRevertFiles(['b.txt'], changelist.id);
+
+        write({ 'a.txt': 'mine\n', 'b.txt': numbered() });
+        const result = await service.unshelveFile(changelist.id, 'b.txt');
+
+        assert.strictEqual(result.conflicts, 1);
+        assert.strictEqual(read('a.txt'), 'mine\n');
+        assert.strictEqual(read('b.txt'), numbered({ 3: 'renamed' }));
+    });
+
+    test('Undo and redo a changelist deletion together with the files it restored', async () => {
+        await commit({ 'a.txt': 'committed\n' });
+        write({ 'a.txt': 'snapshot\n' });
+        const service = await startService();
+        const changelist = await service.createChangelist('Feature');
+        await service.shelveAndRevertFiles(['a.txt'], changelist.id);
+
+        await service.deleteChangelist(changelist.id);
+        assert.strictEqual(service.getChangelist(changelist.id), undefined);
+        assert.strictEqual(read('a.txt'), 'snapshot\n');
+
+        const undone = await service.undoLastOperation();
+        assert.strictEqual(undone.label, 'Delete changelist "Feature"');
+        assert.strictEqual(service.getChangelist(changelist.id)?.shelvedFiles.length, 1);
+        assert.strictEqual(read('a.txt'), 'committed\n');
+
+        await service.redoOperation();
+        assert.strictEqual(service.getChangelist(changelist.id), undefined);
+        assert.strictEqual(read('a.txt'), 'snapshot\n');
+        assert.strictEqual(service.getRedoOperations().length, 0);
+    });
+
+    test('Undo reports working files changed since the operation', async () => {
+        await commit({ 'a.txt': 'committed\n' });
+        write({ 'a.txt': 'working\n' });
+        const service = await startService();
+
+        await service.revertFile('a.txt');
+        assert.deepStrictEqual(await service.getJournalConflicts(), []);
+
+        write({ 'a.txt': 'edited after the revert\n' });
+        assert.deepStrictEqual(await service.getJournalConflicts(), ['a.txt']);
+
+        await service.undoLastOperation();
+        assert.strictEqual(read('a.txt'), 'working\n');
+        await assert.rejects(service.undoLastOperation(), /Nothing to undo/);
+    });
+
+    test('Undo puts working files back in the changelists a merge or deletion took them from', async () => {
+        await commit({ 'a.txt': 'a\n', 'b.txt': 'b\n' });
+        write({ 'a.txt': 'changed\n', 'b.txt': 'changed\n' });
+        const service = await startService();
+        const first = await service.createChangelist('First');
+        const second = await service.createChangelist('Second');
+        await service.moveWorkingFiles(['a.txt'], first.id);
+        await service.moveWorkingFiles(['b.txt'], second.id);
+        const owner = (relativePath: string) => service.getChangelistForFile(relativePath).label;
+
+        await service.mergeChangelists([first.id], second.id);
+        assert.strictEqual(owner('a.txt'), 'Second');
+        await service.undoLastOperation();
+        assert.strictEqual(owner('a.txt'), 'First');
+
+        await service.deleteChangelist(second.id);
+        assert.strictEqual(owner('b.txt'), 'Default Changelist');
+        await service.undoLastOperation();
+        assert.strictEqual(owner('b.txt'), 'Second');
+        await service.redoOperation();
+        assert.strictEqual(owner('b.txt'), 'Default Changelist');
+    });
+
+    test('Operations started while another runs wait for it and are each journaled', async () => {
+        await commit({ 'a.txt': 'a\n', 'b.txt': 'b\n' });
+        write({ 'a.txt': 'changed\n', 'b.txt': 'changed\n' });
+        const service = await startService();
+
+        await Promise.all([service.revertFile('a.txt'), service.revertFile('b.txt')]);
+
+        assert.deepStrictEqual(service.getUndoOperations().map(entry => entry.label), ['Revert b.txt', 'Revert a.txt']);
+        await service.undoLastOperation();
+        await service.undoLastOperation();
+        assert.strictEqual(read('a.txt'), 'changed\n');
+        assert.strictEqual(read('b.txt'), 'changed\n');
+    });
+
+    test('Files that start changing belong to the active changelist', async () => {
+        await commit({ 'a.txt': 'a\n', 'b.txt': 'b\n' });
+        write({ 'a.txt': 'changed before\n' });
+        const service = await startService();
+        const changelist = await service.createChangelist('Feature');
+        await service.setActiveChangelist(changelist.id);
+
+        write({ 'b.txt': 'changed after\n' });
+        await service.refresh();
+
+        const workingFiles = (id: string) => service.getWorkingFilesForChangelist(id).map(file => file.relativePath);
+        assert.deepStrictEqual(workingFiles(changelist.id), ['b.txt']);
+        assert.deepStrictEqual(workingFiles(service.getDefaultChangelist().id), ['a.txt']);
+    });
+
+    test('Moving working files between changelists takes no snapshot', async () => {
+        await commit({ 'a.txt': 'a\n', 'b.txt': 'b\n' });
+        write({ 'a.txt': 'changed\n' });
+        const service = await startService();
+        const changelist = await service.createChangelist('Feature');
+
+        await service.moveWorkingFiles(['a.txt'], changelist.id);
+        assert.deepStrictEqual(service.getWorkingFilesForChangelist(changelist.id).map(file => file.relativePath), ['a.txt']);
+        assert.strictEqual(service.getChangelist(changelist.id)!.shelvedFiles.length, 0);
+        assert.strictEqual(read('a.txt'), 'changed\n');
+
+        await service.moveWorkingFiles(['a.txt'], service.getDefaultChangelist().id);
+        assert.deepStrictEqual(service.getWorkingFilesForChangelist(changelist.id), []);
+        await assert.rejects(service.moveWorkingFiles(['b.txt'], changelist.id), /File not found in changes: b\.txt/);
+    });
+
+    test('Commit Working Changes leaves out files of excluded changelists, even staged ones', async () => {
+        await commit({ 'a.txt': 'a\n', 'debug.cfg': 'off\n' });
+        write({ 'a.txt': 'changed\n', 'debug.cfg': 'on\n' });
+        const service = await startService();
+        const local = await service.createChangelist('Local');
+        await service.moveWorkingFiles(['debug.cfg'], local.id);
+        await service.setExcludeFromCommit(local.id, true);
+        await git.add('debug.cfg');
+
+        await service.commitWorkingChanges('Work');
+
+        assert.deepStrictEqual(service.getExcludedFiles(), ['debug.cfg']);
+        assert.strictEqual((await git.raw(['show', '--name-only', '--format=', 'HEAD'])).trim(), 'a.txt');
+        assert.strictEqual(read('debug.cfg'), 'on\n');
+    });
+
+    test('The pre-commit hook rejects commits staging excluded files', async () => {
+        await commit({ 'debug.cfg': 'off\n' });
+        write({ 'debug.cfg': 'on\n' });
+        const service = await startService();
+        const local = await service.createChangelist('Local');
+        await service.moveWorkingFiles(['debug.cfg'], local.id);
+        await service.setExcludeFromCommit(local.id, true);
+
+        assert.strictEqual(await service.findForeignCommitHook(), undefined);
+        await service.installCommitHook();
+        await git.add('debug.cfg');
+        await assert.rejects(git.raw(['commit', '-m', 'Blocked']), /excluded from commit/);
+
+        await service.setExcludeFromCommit(local.id, false);
+        await git.raw(['commit', '-m', 'Allowed']);
+        assert.strictEqual((await git.raw(['show', '--name-only', '--format=', 'HEAD'])).trim(), 'debug.cfg');
+    });
+
+    test('The pre-commit hook matches names with spaces and non-ASCII characters', async () => {
+        await commit({ 'a.txt': 'a\n', 'réglages locaux.cfg': 'off\n' });
+        write({ 'a.txt': 'changed\n', 'réglages locaux.cfg': 'on\n' });
+        const service = await startService();
+        const local = await service.createChangelist('Local');
+        await service.moveWorkingFiles(['réglages locaux.cfg'], local.id);
+        await service.setExcludeFromCommit(local.id, true);
+        await service.installCommitHook();
+
+        await git.add(['a.txt', 'réglages locaux.cfg']);
+        await assert.rejects(git.raw(['commit', '-m', 'Blocked']), /réglages locaux\.cfg/);
+    });
+
+    test('Commit Changelist records the commit on the changelist', async () => {
+        await commit({ 'a.txt': 'a\n' });
+        write({ 'a.txt': 'changed\n' });
+        const service = await startService();
+        const changelist = await service.createChangelist('Feature');
+        await service.shelveFile('a.txt', changelist.id);
+
+        await service.commitChangelist(changelist.id, 'Add feature\n\nDetails');
+
+        const [recorded] = service.getChangelist(changelist.id)!.commits!;
+        assert.strictEqual(recorded.sha, (await git.revparse(['HEAD'])).trim());
+        assert.strictEqual(recorded.subject, 'Add feature');
+    });
+
+    test('Reverting a commit into a changelist merges later changes and leaves the working tree alone', async () => {
+        await commit({ 'a.txt': numbered() });
+        await commit({ 'a.txt': numbered({ 2: 'changed' }) }, 'Change');
+        const sha = (await git.revparse(['HEAD'])).trim();
+        await commit({ 'a.txt': numbered({ 2: 'changed', 8: 'later' }) }, 'Later');
+        const service = await startService();
+
+        const { changelist, conflicts } = await service.revertCommitToChangelist(sha, 'Revert');
+
+        assert.strictEqual(conflicts, 0);
+        assert.strictEqual(read('a.txt'), numbered({ 2: 'changed', 8: 'later' }));
+        assert.strictEqual(await service.getSnapshotContent(changelist.shelvedFiles[0]), numbered({ 8: 'later' }));
+
+        await service.unshelveFile(changelist.id, 'a.txt');
+        assert.strictEqual(read('a.txt'), numbered({ 8: 'later' }));
+    });
+
+    test('A commit becomes a changelist of snapshots based on its parent', async () => {
+        await commit({ 'a.txt': 'a\n', 'b.txt': 'b\n' });
+        fs.unlinkSync(path.join(repoPath, 'b.txt'));
+        await commit({ 'a.txt': 'changed\n', 'c.txt': 'added\n' }, 'Premature');
+        const head = (await git.revparse(['HEAD'])).trim();
+        const service = await startService();
+
+        const changelist = await service.createChangelistFromCommit(head, 'From commit');
+
+        const files = changelist.shelvedFiles.map(file => [file.relativePath, file.status]).sort();
+        assert.deepStrictEqual(files, [['a.txt', 'modified'], ['b.txt', 'deleted'], ['c.txt', 'added']]);
+        const a = changelist.shelvedFiles.find(file => file.relativePath === 'a.txt')!;
+        assert.strictEqual(await service.getSnapshotContent(a), 'changed\n');
+        assert.strictEqual((await git.revparse(['HEAD'])).trim(), head);
+        await assert.rejects(service.createChangelistFromCommit('nope', 'Unknown'), /Unknown commit: nope/);
+    });
+
+    test('Taking the tip commit back leaves its changes in the working tree, owned by the new changelist', async () => {
+        await commit({ 'a.txt': 'a\n' });
+        const parent = (await git.revparse(['HEAD'])).trim();
+        await commit({ 'a.txt': 'changed\n', 'c.txt': 'added\n' }, 'Premature');
+        const service = await startService();
+
+        await assert.rejects(service.createChangelistFromCommit(parent, 'Not the tip', true), /is not the tip of the branch/);
+        const changelist = await service.createChangelistFromCommit('HEAD', 'Taken back', true);
+
+        assert.strictEqual((await git.revparse(['HEAD'])).trim(), parent);
+        assert.strictEqual(read('a.txt'), 'changed\n');
+        const owned = service.getWorkingFilesForChangelist(changelist.id).map(file => file.relativePath).sort();
+        assert.deepStrictEqual(owned, ['a.txt', 'c.txt']);
+    });
+
+    test('Branch diffs follow git range notation', async () => {
+        await commit({ 'a.txt': 'a\n', 'b.txt': 'b\n' });
+        const main = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+        await git.checkoutLocalBranch('feature');
+        await commit({ 'a.txt': 'feature\n', 'n.txt': 'new\n' }, 'Feature');
+        await git.checkout(main);
+        await commit({ 'b.txt': 'main moves\n' }, 'Main moves');
+        const service = await startService();
+
+        const paths = async (range: string) => (await service.createChangelistFromRefDiff(range, range)).shelvedFiles
+            .map(file => `${file.relativePath} ${file.status}`)
+            .sort();
+
+        // Three dots diff against the merge base, two dots or a space against the first ref
+        assert.deepStrictEqual(await paths(`${main}...feature`), ['a.txt modified', 'n.txt added']);
+        assert.deepStrictEqual(await paths(`${main}..feature`), ['a.txt modified', 'b.txt modified', 'n.txt added']);
+        assert.deepStrictEqual(await paths(`${main} feature`), ['a.txt modified', 'b.txt modified', 'n.txt added']);
+        // A single ref is compared with where it left HEAD
+        assert.deepStrictEqual(await paths('feature'), ['a.txt modified', 'n.txt added']);
+
+        await assert.rejects(service.createChangelistFromRefDiff('nope...feature', 'Unknown'), /Unknown commit: nope/);
+        await assert.rejects(service.createChangelistFromRefDiff(`${main}..${main}`, 'Empty'), /No file changes/);
+    });
+
+    test('Commit Changelist refuses snapshots that would be committed with conflict markers', async () => {
+        await commit({ 'a.txt': 'a\n', 'b.txt': 'b\n' });
+        write({ 'a.txt': 'snapshot\n', 'n.txt': 'new\n' });
+        const service = await startService();
+        const changelist = await service.createChangelist('Feature');
+        await service.shelveAndRevertFiles(['a.txt', 'n.txt'], changelist.id);
+        await commit({ 'a.txt': 'upstream\n' }, 'Upstream');
+        const head = (await git.revparse(['HEAD'])).trim();
+        write({ 'b.txt': 'working\n', 'n.txt': 'mine\n' });
+        await service.refresh();
+
+        await assert.rejects(service.commitChangelist(changelist.id, 'Feature'), /Rebase the snapshots onto HEAD first/);
+
+        assert.strictEqual((await git.revparse(['HEAD'])).trim(), head);
+        assert.strictEqual(read('a.txt'), 'upstream\n');
+        assert.strictEqual(read('b.txt'), 'working\n');
+        assert.strictEqual(read('n.txt'), 'mine\n');
+        assert.strictEqual((await git.raw(['stash', 'list'])).trim(), '');
+    });
+});
@@ -0,0 +1,142 @@
+import * as assert from 'assert';
+import { applyHunks, diffLines, mergeLines, splitHunksAtLines, splitLines } from '../../diff';
+
+suite('Diff Test Suite', () => {
+    const labels = { ours: 'Working file', theirs: 'Snapshot' };
+
+    function lines(...values: string[]): string[] {
+        return values.map(value => `${value}\n`);
+    }
+
+    test('splitLines keeps line endings and a last line without one', () => {
+        assert.deepStrictEqual(splitLines('a\r\nb\nc'), ['a\r\n', 'b\n', 'c']);
+        assert.deepStrictEqual(splitLines(''), []);
+    });
+
+    test('Equal texts have no hunks', () => {
+        assert.deepStrictEqual(diffLines(lines('a', 'b'), lines('a', 'b')), []);
+    });
+
+    test('A changed line becomes one hunk at its position', () => {
+        const hunks = diffLines(lines('a', 'b', 'c'), lines('a', 'B', 'c'));
+
+        assert.deepStrictEqual(hunks, [{ baseStart: 1, baseLines: lines('b'), newStart: 1, newLines: lines('B') }]);
+    });
+
+    test('Applying the hunks to the base gives the modified text', () => {
+        const cases: Array<[string[], string[]]> = [
+            [lines('a', 'b', 'c'), lines('x', 'a', 'b', 'c')],
+            [lines('a', 'b', 'c'), lines('a', 'b')],
+            [lines('a', 'b', 'c', 'd', 'e'), lines('a', 'x', 'c', 'y', 'e', 'f')],
+            [lines('a', 'b'), lines('c', 'd')],
+            [[], lines('a')],
+            [lines('a', 'b', 'a', 'b'), lines('b', 'a', 'b', 'a')]
+        ];
+
+        for (const [base, modified] of cases) {
+            assert.deepStrictEqual(applyHunks(base, diffLines(base, modified)), modified);
+        }
+    });
+
+    test('Hunks are minimal', () => {
+        const base = lines('a', 'b', 'c', 'a', 'b', 'b', 'a');
+        const modified = lines('c', 'b', 'a', 'b', 'a', 'c');
+        const changed = diffLines(base, modified)
+            .reduce((count, hunk) => count + hunk.baseLines.length + hunk.newLines.length, 0);
+
+        assert.strictEqual(changed, 5);
+    });
+
+    test('A rewritten large file becomes one hunk', () => {
+        const base = Array.from({ length: 20000 }, (_, i) => `old ${i}\n`);
+        const modified = Array.from({ length: 20000 }, (_, i) => `new ${i}\n`);
+
+        const hunks = diffLines(base, modified);
+
+        assert.strictEqual(hunks.length, 1);
+        assert.deepStrictEqual(applyHunks(base, hunks), modified);
+    });
+
+    test('Overlapping hunks are not applied', () => {
+        const hunk = { baseStart: 0, baseLines: lines('a', 'b'), newStart: 0, newLines: [] };
+
+        assert.throws(() => applyHunks(lines('a', 'b'), [hunk, { ...hunk, baseStart: 1 }]), /Overlapping/);
+    });
+
+    test('Changes of both sides to different regions are combined', () => {
+        const base = lines('a', 'b', 'c', 'd', 'e');
+
+        const result = mergeLines(base, lines('A', 'b', 'c', 'd', 'e'), lines('a', 'b', 'c', 'd', 'E'), labels);
+
+        assert.strictEqual(result.conflicts, 0);
+        assert.deepStrictEqual(result.lines, lines('A', 'b', 'c', 'd', 'E'));
+    });
+
+    test('The same change on both sides is not a conflict', () => {
+        const result = mergeLines(lines('a', 'b'), lines('a', 'B'), lines('a', 'B'), labels);
+
+        assert.strictEqual(result.conflicts, 0);
+        assert.deepStrictEqual(result.lines, lines('a', 'B'));
+    });
+
+    test('Different changes to the same lines are written between conflict markers', () => {
+        const result = mergeLines(lines('a', 'b', 'c'), lines('a', 'ours', 'c'), lines('a', 'theirs', 'c'), labels);
+
+        assert.strictEqual(result.conflicts, 1);
+        assert.deepStrictEqual(result.lines, lines(
+            'a',
+            '<<<<<<< Working file',
+            'ours',
+            '=======',
+            'theirs',
+            '>>>>>>> Snapshot',
+            'c'
+        ));
+    });
+
+    test('Changes to adjacent lines conflict', () => {
+        const result = mergeLines(lines('a', 'b', 'c'), lines('A', 'b', 'c'), lines('a', 'B', 'c'), labels);
+
+        assert.strictEqual(result.conflicts, 1);
+        assert.deepStrictEqual(result.lines, lines(
+            '<<<<<<< Working file',
+            'A',
+            'b',
+            '=======',
+            'a',
+            'B',
+            '>>>>>>> Snapshot',
+            'c'
+        ));
+    });
+
+    test('Conflict markers use the given line ending and start their own line', () => {
+        const result = mergeLines(['a'], ['ours'], ['theirs'], labels, '\r\n');
+
+        assert.deepStrictEqual(result.lines, [
+            '<<<<<<< Working file\r\n',
+            'ours\r\n',
+            '=======\r\n',
+            'theirs\r\n',
+            '>>>>>>> Snapshot\r\n'
+        ]);
+    });
+
+    test('A hunk crossing the selected lines is cut', () => {
+        const hunks = diffLines(lines('a', 'b', 'c'), lines('A', 'B', 'C'));
+
+        const { selected, remaining } = splitHunksAtLines(hunks, 1, 1);
+
+        assert.deepStrictEqual(selected, [{ baseStart: 1, baseLines: lines('b'), newStart: 1, newLines: lines('B') }]);
+        assert.strictEqual(remaining.length, 2);
+        assert.deepStrictEqual(applyHunks(lines('a', 'b', 'c'), selected), lines('a', 'B', 'c'));
+        assert.deepStrictEqual(applyHunks(lines('a', 'b', 'c'), remaining), lines('A', 'b', 'C'));
+    });
+
+    test('A deletion is selected when the selection touches the lines around it', () => {
+        const hunks = diffLines(lines('a', 'b', 'c'), lines('a', 'c'));
+
+        assert.strictEqual(splitHunksAtLines(hunks, 0, 0).selected.length, 1);
+        assert.strictEqual(splitHunksAtLines(hunks, 1, 1).selected.length, 1);
+    });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { TextEncoding } from '../../types';
+import { decodeText, detectEncoding, detectLineEnding, encodeText, isBinaryContent } from '../../utils';
+
+suite('Encoding Test Suite', () => {
+    const text = 'Café crème\r\nüber 2 €\n';
+
+    test('Encodings are detected from the BOM, else from UTF-8 validity', () => {
+        assert.strictEqual(detectEncoding(Buffer.from('plain ascii\n')), 'utf8');
+        assert.strictEqual(detectEncoding(Buffer.from('Café\n', 'utf8')), 'utf8');
+        assert.strictEqual(detectEncoding(Buffer.from('Café\n', 'latin1')), 'latin1');
+        assert.strictEqual(detectEncoding(encodeText('a', 'utf8bom')), 'utf8bom');
+        assert.strictEqual(detectEncoding(encodeText('a', 'utf16le')), 'utf16le');
+        assert.strictEqual(detectEncoding(encodeText('a', 'utf16be')), 'utf16be');
+    });
+
+    test('Text round-trips through every encoding byte for byte', () => {
+        const encodings: TextEncoding[] = ['utf8', 'utf8bom', 'utf16le', 'utf16be'];
+
+        for (const encoding of encodings) {
+            const bytes = encodeText(text, encoding);
+            assert.strictEqual(decodeText(bytes), text, encoding);
+            assert.ok(encodeText(decodeText(bytes), detectEncoding(bytes)).equals(bytes), encoding);
+        }
+    });
+
+    test('Latin-1 text round-trips when it has no characters outside Latin-1', () => {
+        const latin = 'Café crème\nüber\n';
+        const bytes = Buffer.from(latin, 'latin1');
+
+        assert.strictEqual(decodeText(bytes), latin);
+        assert.ok(encodeText(decodeText(bytes), detectEncoding(bytes)).equals(bytes));
+    });
+
+    test('Decoding drops the BOM', () => {
+        assert.strictEqual(decodeText(encodeText('abc', 'utf8bom')), 'abc');
+        assert.strictEqual(decodeText(encodeText('abc', 'utf16be')), 'abc');
+    });
+
+    test('NUL bytes make content binary, except in UTF-16 text', () => {
+        assert.strictEqual(isBinaryContent(Buffer.from([0x89, 0x50, 0x00, 0x01])), true);
+        assert.strictEqual(isBinaryContent(encodeText('abc', 'utf16le')), false);
+        assert.strictEqual(isBinaryContent(Buffer.from('abc\n')), false);
+    });
+
+    test('Line endings are detected', () => {
+        assert.strictEqual(detectLineEnding('a\nb\n'), 'lf');
+        assert.strictEqual(detectLineEnding('a\r\nb\r\n'), 'crlf');
+        assert.strictEqual(detectLineEnding('a\r\nb\n'), 'mixed');
+        assert.strictEqual(detectLineEnding('a'), undefined);
+    });
+});
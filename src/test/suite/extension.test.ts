@@ -25,6 +25,9 @@ suite('Extension Test Suite', () => {
         const packageJSON = extension.packageJSON;
         assert.ok(packageJSON.contributes.viewsContainers.activitybar);
         assert.ok(packageJSON.contributes.views.smartChangelists);
+
+        const viewIds = packageJSON.contributes.views.smartChangelists.map((view: { id: string }) => view.id);
+        assert.ok(viewIds.includes('smartChangelistsHistory'), 'Operation history view should be defined');
     });
 
     test('Commands should be defined in package.json', () => {
@@ -53,6 +56,16 @@ suite('Extension Test Suite', () => {
         }
     });
 
+    test('Each command should be declared once in package.json', () => {
+        const extension = vscode.extensions.getExtension('harungecit.smart-changelists');
+        assert.ok(extension);
+
+        const commandIds: string[] = extension.packageJSON.contributes.commands.map((cmd: { command: string }) => cmd.command);
+        const duplicates = commandIds.filter((id, index) => commandIds.indexOf(id) !== index);
+
+        assert.deepStrictEqual(duplicates, []);
+    });
+
     test('Configuration should be defined in package.json', () => {
         const extension = vscode.extensions.getExtension('harungecit.smart-changelists');
         assert.ok(extension);
@@ -66,6 +79,8 @@ suite('Extension Test Suite', () => {
         assert.ok(properties['smartChangelists.confirmBeforeRevert']);
         assert.ok(properties['smartChangelists.saveSnapshotsToFile']);
         assert.ok(properties['smartChangelists.enableVersionComparison']);
+        assert.ok(properties['smartChangelists.snapshotStorage']);
+        assert.ok(properties['smartChangelists.syncRemote']);
     });
 });
 
@@ -80,5 +95,7 @@ suite('Configuration Test Suite', () => {
         assert.strictEqual(config.get('confirmBeforeRevert'), true);
         assert.strictEqual(config.get('saveSnapshotsToFile'), false);
         assert.strictEqual(config.get('enableVersionComparison'), false);
+        assert.strictEqual(config.get('snapshotStorage'), 'workspace');
+        assert.strictEqual(config.get('syncRemote'), 'origin');
     });
 });
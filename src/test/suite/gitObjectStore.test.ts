@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { GitObjectStore } from '../../GitObjectStore';
+import { Changelist } from '../../types';
+
+suite('Changelist Sync Test Suite', () => {
+    let tempDir: string;
+    let gitA: SimpleGit;
+    let gitB: SimpleGit;
+
+    setup(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-changelists-'));
+        const remotePath = path.join(tempDir, 'remote.git');
+
+        // A bare repository plays the remote, two clones play the machines sharing it
+        for (const dir of ['remote.git', 'a', 'b']) {
+            fs.mkdirSync(path.join(tempDir, dir));
+        }
+        await simpleGit(remotePath).init(true);
+
+        gitA = simpleGit(path.join(tempDir, 'a'));
+        gitB = simpleGit(path.join(tempDir, 'b'));
+        for (const git of [gitA, gitB]) {
+            await git.init();
+            await git.addRemote('origin', remotePath);
+        }
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function makeChangelist(label: string, contentHash: string, shelvedAt: number): Changelist {
+        return {
+            id: 'cl-1',
+            label,
+            shelvedFiles: [{ relativePath: 'src/a.ts', status: 'modified', patch: '', contentHash, shelvedAt }],
+            isDefault: false,
+            isActive: true
+        };
+    }
+
+    test('Published changelist can be fetched from a bare remote', async () => {
+        const storeA = new GitObjectStore(gitA);
+        const contentHash = await storeA.put('shelved content\n');
+        await storeA.sync([makeChangelist('Feature', contentHash, 1)]);
+        await storeA.push('origin', ['cl-1']);
+
+        const storeB = new GitObjectStore(gitB);
+        const fetched = await storeB.fetch('origin');
+
+        assert.strictEqual(fetched.length, 1);
+        assert.strictEqual(fetched[0].label, 'Feature');
+        assert.strictEqual(fetched[0].shelvedFiles[0].contentHash, contentHash);
+
+        const content = await storeB.get(contentHash);
+        assert.strictEqual(content?.toString('utf8'), 'shelved content\n');
+    });
+
+    test('Republishing a changelist replaces the remote ref', async () => {
+        const storeA = new GitObjectStore(gitA);
+        await storeA.sync([makeChangelist('Feature', await storeA.put('first\n'), 1)]);
+        await storeA.push('origin', ['cl-1']);
+
+        const secondHash = await storeA.put('second\n');
+        await storeA.sync([makeChangelist('Feature v2', secondHash, 2)]);
+        await storeA.push('origin', ['cl-1']);
+
+        const storeB = new GitObjectStore(gitB);
+        const fetched = await storeB.fetch('origin');
+
+        assert.strictEqual(fetched.length, 1);
+        assert.strictEqual(fetched[0].label, 'Feature v2');
+        assert.strictEqual((await storeB.get(secondHash))?.toString('utf8'), 'second\n');
+    });
+
+    test('Retained content is kept reachable until it is released', async () => {
+        const storeA = new GitObjectStore(gitA);
+        const retainedHash = await storeA.put('journal content\n');
+
+        await storeA.sync([], new Set([retainedHash]));
+        const tree = await gitA.raw(['ls-tree', '-r', 'refs/changelists-retained']);
+        assert.ok(tree.includes(retainedHash));
+
+        await storeA.sync([]);
+        const refs = await gitA.raw(['for-each-ref', 'refs/changelists-retained']);
+        assert.strictEqual(refs.trim(), '');
+    });
+});
@@ -55,8 +55,18 @@ export interface ChangedFile {
     originalPath?: string;
     /** Path to the repository this file belongs to (for multi-repo support) */
     repoPath?: string;
+    /** What the path is in the working tree (regular file when missing) */
+    kind?: EntryKind;
 }
 
+/**
+ * Kind of a working tree entry:
+ * - file: regular file
+ * - symlink: symbolic link; snapshots hold its target
+ * - submodule: submodule pointer (gitlink); snapshots hold the checked-out commit SHA
+ */
+export type EntryKind = 'file' | 'symlink' | 'submodule';
+
 /**
  * Represents a shelved file entry with its full content
  */
@@ -67,18 +77,97 @@ export interface ShelvedFile {
     status: GitFileStatus;
     /** The diff/patch content (legacy, kept for backward compatibility) */
     patch: string;
-    /** Full content of the file when shelved (the actual shelved version) */
+    /** Id of the shelved content in the snapshot store (the actual shelved version) */
+    contentHash?: string;
+    /** Id of the HEAD content at the time of shelving in the snapshot store */
+    headHash?: string;
+    /** Inline shelved content (legacy state before v5, and export files; base64 for binaries and text not in plain UTF-8) */
     originalContent?: string;
-    /** Content from HEAD at the time of shelving (for restoring working dir) */
+    /** Inline HEAD content (legacy state before v5, and export files; base64 like originalContent) */
     headContent?: string;
+    /** Whether the file is binary (content is restored byte-for-byte and never shown as text) */
+    isBinary?: boolean;
+    /** Symlink or submodule pointer instead of a regular file (regular file when missing) */
+    kind?: EntryKind;
+    /** Whether only some hunks were shelved: the content is HEAD plus those hunks, and restoring re-applies them onto the working file */
+    isPartial?: boolean;
+    /** Permission bits of the working file when shelved (e.g. 0o755), restored with the content */
+    mode?: number;
+    /** Text encoding of the shelved content, including whether it has a BOM (detected from the content when missing) */
+    encoding?: TextEncoding;
+    /** Line-ending style of the shelved content (missing when it has no line breaks) */
+    eol?: LineEnding;
     /** Timestamp when shelved */
     shelvedAt: number;
     /** Original path (for renamed files) */
     originalPath?: string;
     /** Path to the repository this file belongs to (for multi-repo support) */
     repoPath?: string;
+    /** Earlier snapshots of this path in the same changelist, oldest first */
+    history?: ShelvedFileRevision[];
+}
+
+/**
+ * Text encodings recognised in snapshots; utf8bom is UTF-8 with a byte order mark,
+ * the UTF-16 variants always carry one
+ */
+export type TextEncoding = 'utf8' | 'utf8bom' | 'utf16le' | 'utf16be' | 'latin1';
+
+/**
+ * Line-ending style of a text
+ */
+export type LineEnding = 'lf' | 'crlf' | 'mixed';
+
+/**
+ * A contiguous block of changed lines between a base text and a modified text.
+ * Lines keep their line endings.
+ */
+export interface Hunk {
+    /** Index of the first replaced line in the base (0-based) */
+    baseStart: number;
+    /** Lines removed from the base */
+    baseLines: string[];
+    /** Index of the first inserted line in the modified text (0-based) */
+    newStart: number;
+    /** Lines inserted in their place */
+    newLines: string[];
+}
+
+/**
+ * Result of a three-way line merge
+ */
+export interface MergeResult {
+    /** Merged lines, with conflict markers around conflicting regions */
+    lines: string[];
+    /** Number of conflicting regions */
+    conflicts: number;
+}
+
+/**
+ * Outcome of restoring a snapshot onto the working file
+ */
+export interface RestoreResult {
+    /** Path of the restored file */
+    relativePath: string;
+    /** Whether changes in the working file were merged with the snapshot instead of overwritten */
+    merged: boolean;
+    /** Number of conflicts left in the working file (conflict markers, or a kept file the snapshot deletes) */
+    conflicts: number;
 }
 
+/**
+ * What to do when a snapshot is copied to a changelist that already has one of the same path:
+ * - replace: the incoming snapshot replaces the existing one and its revisions
+ * - keepBoth: both are kept, the newest as the latest snapshot and the others as revisions
+ * - skip: the existing snapshot is left as it is
+ */
+export type SnapshotCollision = 'replace' | 'keepBoth' | 'skip';
+
+/**
+ * An earlier snapshot of a shelved file, identified by its shelvedAt timestamp
+ */
+export type ShelvedFileRevision = Omit<ShelvedFile, 'history'>;
+
 /**
  * Represents a changelist (group of changes)
  */
@@ -87,16 +176,80 @@ export interface Changelist {
     id: string;
     /** User-defined label for the changelist */
     label: string;
+    /** Longer description, may span several lines */
+    description?: string;
+    /** Commit message template with placeholders such as {label}, {branch} and {files} */
+    commitTemplate?: string;
     /** Shelved files with their patches */
     shelvedFiles: ShelvedFile[];
     /** Whether this is the default changelist (unshelved working changes) */
     isDefault: boolean;
     /** Whether this is the active changelist (new changes go here) */
     isActive: boolean;
+    /** Set on changelists the service fills by itself instead of by shelving */
+    automatic?: AutomaticChangelist;
+    /** Whether the working files of this changelist are left out of commits (local-only changes) */
+    excludeFromCommit?: boolean;
+    /** When the changelist was committed or retired; archived changelists keep their snapshots but are read-only */
+    archivedAt?: number;
+    /** Commits made from this changelist, oldest first */
+    commits?: ChangelistCommit[];
     /** Path to the repository this changelist belongs to (for multi-repo support) */
     repoPath?: string;
 }
 
+/**
+ * A commit made from a changelist
+ */
+export interface ChangelistCommit {
+    /** Full commit hash */
+    sha: string;
+    /** Branch that was checked out (empty on a detached HEAD) */
+    branch: string;
+    /** Author as "Name <email>" */
+    author: string;
+    /** Commit timestamp */
+    committedAt: number;
+    /** First line of the commit message */
+    subject: string;
+}
+
+/**
+ * A file that differs between two commits; renames are a deletion plus an addition
+ */
+export interface CommitFileChange {
+    relativePath: string;
+    /** added, deleted or modified */
+    status: GitFileStatus;
+    /** Blob id (submodule commit for submodules) before and after; missing on the side without the file */
+    beforeId?: string;
+    afterId?: string;
+    /** Symlink or submodule instead of a regular file, on the side that has the file (the new side when both do) */
+    kind?: EntryKind;
+    /** Permission bits of a regular file, on the same side as kind */
+    mode?: number;
+}
+
+/**
+ * Content a snapshot is made from when it does not come from the working tree
+ */
+export interface SnapshotEntry {
+    relativePath: string;
+    /** Base the snapshot is restored against (missing when the file does not exist there) */
+    head?: Buffer;
+    /** Shelved version (missing for a deletion) */
+    content?: Buffer;
+    kind?: EntryKind;
+    mode?: number;
+}
+
+/**
+ * Changelists the service fills automatically:
+ * - localHistory: a snapshot of a changed file every time it is saved
+ * - recovery: the working content of a file right before a revert or restore overwrites it
+ */
+export type AutomaticChangelist = 'localHistory' | 'recovery';
+
 /**
  * State stored in workspaceState
  */
@@ -105,8 +258,112 @@ export interface ChangelistState {
     changelists: Changelist[];
     /** ID of the active changelist */
     activeChangelistId: string;
+    /** Changelist id of each changed working file by relative path; files missing here belong to the default changelist */
+    assignments?: Record<string, string>;
     /** Version for potential future migrations */
     version: number;
+    /** Backend the content ids in this state refer to (workspace when missing) */
+    storage?: SnapshotStorage;
+}
+
+/**
+ * Where snapshot content is stored:
+ * - workspace: content-addressed files (SHA-256) under the extension's workspace storage
+ * - gitRefs: git objects in the repository, kept alive by refs/changelists/<id>
+ */
+export type SnapshotStorage = 'workspace' | 'gitRefs';
+
+/**
+ * Storage backend for snapshot content
+ */
+export interface SnapshotStore {
+    /** Store content and return the id it can be read back with */
+    put(content: string | Buffer): Promise<string>;
+    /** Read content by id */
+    get(id: string): Promise<Buffer | undefined>;
+    /**
+     * Record the current changelists; content referenced neither by them nor by the
+     * retained ids (e.g. the operation journal) may be dropped
+     */
+    sync(changelists: Changelist[], retained?: Set<string>): Promise<void>;
+}
+
+/**
+ * A working tree path as recorded in the operation journal
+ */
+export interface JournalFile {
+    /** Relative path from the repository root */
+    relativePath: string;
+    /** Id of the content in the snapshot store (missing when nothing existed at the path) */
+    contentHash?: string;
+    /** Symlink or submodule pointer instead of a regular file */
+    kind?: EntryKind;
+    /** Permission bits of a regular file */
+    mode?: number;
+}
+
+/**
+ * A changelist as recorded in the operation journal
+ */
+export interface JournalChangelist {
+    /** ID of the changelist */
+    id: string;
+    /** The changelist (missing when it did not exist) */
+    changelist?: Changelist;
+    /** Position among the repository's changelists (set with changelist) */
+    index?: number;
+}
+
+/**
+ * A working file's changelist as recorded in the operation journal
+ */
+export interface JournalAssignment {
+    /** Relative path from the repository root */
+    relativePath: string;
+    /** ID of the changelist (missing when the file belonged to the default changelist) */
+    changelistId?: string;
+}
+
+/**
+ * Working files and changelists at one point of a journaled operation
+ */
+export interface JournalSnapshot {
+    /** The working files the operation touches */
+    files: JournalFile[];
+    /** The changelists the operation changed (all of them while it runs) */
+    changelists: JournalChangelist[];
+    /** The working files whose changelist the operation changed (all assigned files while it runs) */
+    assignments: JournalAssignment[];
+    /** ID of the active changelist */
+    activeChangelistId: string;
+}
+
+/**
+ * A destructive changelist operation, recorded so it can be undone and redone
+ */
+export interface JournalEntry {
+    /** Unique identifier */
+    id: string;
+    /** What was done, e.g. "Restore src/a.ts from Feature" */
+    label: string;
+    /** When the operation ran */
+    timestamp: number;
+    /** When the operation was last undone (set while it waits to be redone) */
+    undoneAt?: number;
+    /** State before the operation, brought back by undo */
+    before: JournalSnapshot;
+    /** State after the operation, brought back by redo */
+    after: JournalSnapshot;
+}
+
+/**
+ * Undo and redo stacks of one repository, stored in workspaceState
+ */
+export interface OperationJournal {
+    /** Operations that can be undone, oldest first */
+    undo: JournalEntry[];
+    /** Undone operations that can be redone, most recently undone last */
+    redo: JournalEntry[];
 }
 
 /**
@@ -156,6 +413,16 @@ export interface ChangelistConfig {
     confirmBeforeRevert: boolean;
     saveSnapshotsToFile: boolean;
     enableVersionComparison: boolean;
+    snapshotStorage: SnapshotStorage;
+    syncRemote: string;
+    localHistory: boolean;
+    localHistoryInterval: number;
+    localHistoryMaxRevisions: number;
+    localHistoryMaxAgeDays: number;
+    recoveryMaxRevisions: number;
+    recoveryMaxAgeDays: number;
+    archiveMaxChangelists: number;
+    archiveMaxAgeDays: number;
 }
 
 /**
@@ -163,9 +430,11 @@ export interface ChangelistConfig {
  */
 export interface FileVersion {
     changelist: Changelist;
-    shelvedFile: ShelvedFile;
+    shelvedFile: ShelvedFile | ShelvedFileRevision;
     label: string;
     timestamp: number;
+    /** Whether this is an older revision inside its changelist */
+    isRevision: boolean;
 }
 
 /**
@@ -174,6 +443,7 @@ export interface FileVersion {
 export interface ChangelistEvents {
     onDidChangeChangelists: vscode.Event<void>;
     onDidChangeFiles: vscode.Event<void>;
+    onDidChangeJournal: vscode.Event<void>;
 }
 
 /**
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as crypto from 'crypto';
-import { ChangelistConfig, GitFileStatus, GitRepository } from './types';
+import { Changelist, ChangelistConfig, EntryKind, GitFileStatus, GitRepository, LineEnding, TextEncoding } from './types';
 
 /**
  * Generate a unique ID for changelists
@@ -65,6 +65,13 @@ export function getDirName(filePath: string): string {
     return path.dirname(filePath);
 }
 
+/**
+ * Display a path, as "old → new" when it was renamed
+ */
+export function formatRenamedPath(filePath: string, originalPath?: string): string {
+    return originalPath ? `${originalPath} → ${filePath}` : filePath;
+}
+
 /**
  * Map simple-git status to our GitFileStatus
  */
@@ -83,6 +90,122 @@ export function mapGitStatus(index: string, workingDir: string): GitFileStatus {
     return 'modified';
 }
 
+/**
+ * Detect binary content the same way git does: a NUL byte in the first 8000 bytes.
+ * UTF-16 text (recognised by its BOM) is not binary.
+ */
+export function isBinaryContent(content: Buffer): boolean {
+    const bom = bomEncoding(content);
+    if (bom === 'utf16le' || bom === 'utf16be') {
+        return false;
+    }
+
+    const length = Math.min(content.length, 8000);
+    for (let i = 0; i < length; i++) {
+        if (content[i] === 0) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Detect the text encoding of content: a BOM decides, otherwise UTF-8 when valid, else Latin-1
+ */
+export function detectEncoding(content: Buffer): TextEncoding {
+    const bom = bomEncoding(content);
+    if (bom) {
+        return bom;
+    }
+
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(content);
+        return 'utf8';
+    } catch {
+        return 'latin1';
+    }
+}
+
+function bomEncoding(content: Buffer): TextEncoding | undefined {
+    if (content[0] === 0xef && content[1] === 0xbb && content[2] === 0xbf) {
+        return 'utf8bom';
+    }
+    if (content[0] === 0xff && content[1] === 0xfe) {
+        return 'utf16le';
+    }
+    if (content[0] === 0xfe && content[1] === 0xff) {
+        return 'utf16be';
+    }
+    return undefined;
+}
+
+/**
+ * Detect the line-ending style of a text (undefined when it has no line breaks)
+ */
+export function detectLineEnding(text: string): LineEnding | undefined {
+    const crlf = (text.match(/\r\n/g) || []).length;
+    const lf = (text.match(/\n/g) || []).length - crlf;
+
+    if (crlf === 0 && lf === 0) {
+        return undefined;
+    }
+    if (crlf === 0) {
+        return 'lf';
+    }
+    return lf === 0 ? 'crlf' : 'mixed';
+}
+
+/**
+ * Decode text content, dropping its BOM
+ */
+export function decodeText(content: Buffer, encoding: TextEncoding = detectEncoding(content)): string {
+    switch (encoding) {
+        case 'utf8bom':
+            return content.subarray(bomEncoding(content) === 'utf8bom' ? 3 : 0).toString('utf8');
+        case 'utf16le':
+        case 'utf16be': {
+            const start = bomEncoding(content) === encoding ? 2 : 0;
+            const body = Buffer.from(content.subarray(start, start + ((content.length - start) & ~1)));
+            return (encoding === 'utf16be' ? body.swap16() : body).toString('utf16le');
+        }
+        case 'latin1':
+            return content.toString('latin1');
+        default:
+            return content.toString('utf8');
+    }
+}
+
+/**
+ * Encode text, adding the BOM the encoding calls for
+ */
+export function encodeText(text: string, encoding: TextEncoding = 'utf8'): Buffer {
+    switch (encoding) {
+        case 'utf8bom':
+            return Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(text, 'utf8')]);
+        case 'utf16le':
+            return Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')]);
+        case 'utf16be':
+            return Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from(text, 'utf16le').swap16()]);
+        case 'latin1':
+            return Buffer.from(text, 'latin1');
+        default:
+            return Buffer.from(text, 'utf8');
+    }
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Get extension configuration
  */
@@ -94,10 +217,63 @@ export function getConfig(): ChangelistConfig {
         confirmBeforeCommit: config.get('confirmBeforeCommit', true),
         confirmBeforeRevert: config.get('confirmBeforeRevert', true),
         saveSnapshotsToFile: config.get('saveSnapshotsToFile', false),
-        enableVersionComparison: config.get('enableVersionComparison', false)
+        enableVersionComparison: config.get('enableVersionComparison', false),
+        snapshotStorage: config.get('snapshotStorage', 'workspace'),
+        syncRemote: config.get('syncRemote', 'origin'),
+        localHistory: config.get('localHistory', false),
+        localHistoryInterval: config.get('localHistoryInterval', 60),
+        localHistoryMaxRevisions: config.get('localHistoryMaxRevisions', 50),
+        localHistoryMaxAgeDays: config.get('localHistoryMaxAgeDays', 7),
+        recoveryMaxRevisions: config.get('recoveryMaxRevisions', 10),
+        recoveryMaxAgeDays: config.get('recoveryMaxAgeDays', 30),
+        archiveMaxChangelists: config.get('archiveMaxChangelists', 50),
+        archiveMaxAgeDays: config.get('archiveMaxAgeDays', 90)
     };
 }
 
+/**
+ * Fill a commit message template. Placeholders: {label}, {description}, {branch}, {files}
+ * (one path per line) and {fileCount}; unknown ones are left as they are.
+ */
+export function renderCommitTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match);
+}
+
+/**
+ * Show line breaks as \n, for editing multi-line text in a single-line input box
+ */
+export function escapeLineBreaks(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Turn \n typed in a single-line input box back into line breaks (\\ for a backslash)
+ */
+export function unescapeLineBreaks(text: string): string {
+    return text.replace(/\\(\\|n)/g, (_, escaped: string) => escaped === 'n' ? '\n' : '\\');
+}
+
+/**
+ * Collect every content id referenced by the snapshots (and their revisions) of some changelists
+ */
+export function collectContentIds(changelists: Changelist[]): Set<string> {
+    const ids = new Set<string>();
+    for (const changelist of changelists) {
+        for (const shelvedFile of changelist.shelvedFiles) {
+            for (const revision of [shelvedFile, ...(shelvedFile.history || [])]) {
+                if (revision.contentHash) {
+                    ids.add(revision.contentHash);
+                }
+                if (revision.headHash) {
+                    ids.add(revision.headHash);
+                }
+            }
+        }
+    }
+    return ids;
+}
+
 /**
  * Show error message with optional actions
  */
@@ -260,6 +436,27 @@ export function hasGitDir(dirPath: string): boolean {
     return fs.existsSync(gitPath);
 }
 
+/**
+ * What a working tree path is: a symlink, a submodule checkout (a directory with .git)
+ * or anything else, treated as a regular file (undefined when nothing exists there)
+ */
+export function getEntryKind(absolutePath: string): EntryKind | undefined {
+    let stats: fs.Stats;
+    try {
+        stats = fs.lstatSync(absolutePath);
+    } catch {
+        return undefined;
+    }
+
+    if (stats.isSymbolicLink()) {
+        return 'symlink';
+    }
+    if (stats.isDirectory() && hasGitDir(absolutePath)) {
+        return 'submodule';
+    }
+    return 'file';
+}
+
 /**
  * Check if a .git path is a file (submodule) or directory (regular repo)
  */